@@ -0,0 +1,158 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react'
+import App from '@/App'
+import { setLogLevel } from '@/lib/logger'
+import { clearCache } from '@/lib/searchCache'
+import { createMockBackend } from '@/mock/mockBackend'
+
+const backend = createMockBackend()
+
+const search = (query: string) => {
+  const input = screen.getByRole('combobox', { name: 'Search Wikipedia articles' })
+  fireEvent.change(input, { target: { value: query } })
+  fireEvent.keyDown(input, { key: 'Enter' })
+}
+
+const status = () => screen.getByRole('status').textContent
+
+describe('App', () => {
+  beforeEach(() => {
+    setLogLevel('silent')
+    clearCache()
+    localStorage.clear()
+    window.history.replaceState(null, '', '/')
+    backend.configure({ latencyMs: 0, failure: null })
+    vi.stubGlobal('fetch', backend.fetch)
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.unstubAllGlobals()
+  })
+
+  it('starts with a prompt to search', () => {
+    render(<App />)
+    expect(screen.getByText('Start searching')).toBeTruthy()
+    expect(screen.queryByRole('article')).toBeNull()
+  })
+
+  it('shows a spinner while the search is in flight', async () => {
+    backend.configure({ latencyMs: 100 })
+    render(<App />)
+    search('rome')
+    expect(status()).toBe('Searching...')
+    expect(screen.getAllByText('Searching...')).toHaveLength(2)
+
+    await screen.findAllByRole('article')
+    expect(screen.queryByText('Searching...')).toBeNull()
+  })
+
+  it('renders result cards for a successful search', async () => {
+    render(<App />)
+    search('rome')
+
+    const cards = await screen.findAllByRole('article')
+    expect(cards.length).toBeGreaterThan(1)
+    expect(screen.getAllByRole('heading', { level: 3 })[0].textContent).toBe('Rome')
+    expect(status()).toMatch(/^\d+\+? results? for rome$/)
+    expect(window.location.search).toContain('q=rome')
+  })
+
+  it('shows the empty state when nothing matches', async () => {
+    render(<App />)
+    search('qzxvw')
+
+    expect(await screen.findByText('No results found')).toBeTruthy()
+    expect(screen.queryByRole('article')).toBeNull()
+    expect(status()).toBe('No results found for qzxvw')
+  })
+
+  it('keeps the empty state while the next query is typed', async () => {
+    render(<App />)
+    search('qzxvw')
+    await screen.findByText('No results found')
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Search Wikipedia articles' }), { target: { value: 'qzxvwa' } })
+    expect(screen.getByText('No results found')).toBeTruthy()
+    expect(screen.queryByText('Start searching')).toBeNull()
+  })
+
+  it('shows the server message when the request is rejected', async () => {
+    backend.configure({ failure: { kind: 'http', status: 400, message: 'cannot parse query' } })
+    render(<App />)
+    search('rome')
+
+    const alert = await screen.findByRole('alert')
+    expect(alert.textContent).toContain('The search backend rejected the request (HTTP 400)')
+    expect(alert.textContent).toContain('cannot parse query')
+    expect(screen.queryByText('No results found')).toBeNull()
+  })
+
+  it('tells a network failure apart and recovers on the next search', async () => {
+    backend.configure({ failure: { kind: 'network' } })
+    render(<App />)
+    search('rome')
+    expect((await screen.findByRole('alert')).textContent).toContain('Could not reach the search backend')
+
+    backend.configure({ failure: null })
+    search('paris')
+    await waitFor(() => expect(screen.queryByRole('alert')).toBeNull())
+    expect((await screen.findAllByRole('heading', { level: 3 }))[0].textContent).toBe('Paris')
+  })
+
+  it('goes back to the results entry when an opened article is closed', async () => {
+    render(<App />)
+    search('rome')
+    const [title] = await screen.findAllByRole('heading', { level: 3 })
+    const resultsUrl = window.location.search
+    const entries = window.history.length
+
+    fireEvent.click(title.querySelector('button')!)
+    expect(screen.getByRole('dialog', { name: 'Article' })).toBeTruthy()
+    expect(window.location.search).toContain('doc=rome')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close article' }))
+    await waitFor(() => expect(screen.queryByRole('dialog', { name: 'Article' })).toBeNull())
+    expect(window.location.search).toBe(resultsUrl)
+    expect(window.history.length).toBe(entries + 1)
+  })
+
+  it('drops the param when closing a deep-linked article', async () => {
+    window.history.replaceState(null, '', '/?doc=paris')
+    const entries = window.history.length
+    render(<App />)
+    expect(screen.getByRole('dialog', { name: 'Article' })).toBeTruthy()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close article' }))
+    expect(screen.queryByRole('dialog', { name: 'Article' })).toBeNull()
+    expect(window.location.search).toBe('')
+    expect(window.history.length).toBe(entries)
+  })
+
+  it('clears the query with Escape and suggests again for the next one', async () => {
+    render(<App />)
+    search('rome')
+    await screen.findAllByRole('article')
+    const input = screen.getByRole('combobox', { name: 'Search Wikipedia articles' })
+
+    fireEvent.keyDown(input, { key: 'Escape' })
+    expect((input as HTMLInputElement).value).toBe('')
+
+    fireEvent.change(input, { target: { value: 'pa' } })
+    const listbox = await screen.findByRole('listbox')
+    expect(within(listbox).getAllByRole('option')[0].textContent).toBe('Paris')
+  })
+
+  it('clears the comparison when going back to a URL without a query', async () => {
+    render(<App />)
+    search('rome')
+    await screen.findAllByRole('article')
+    fireEvent.click(screen.getByRole('button', { name: 'Compare' }))
+    expect(await screen.findByText(/results appear in both lists/)).toBeTruthy()
+
+    window.history.pushState(null, '', '/')
+    fireEvent(window, new PopStateEvent('popstate'))
+    await waitFor(() => expect(screen.queryByText(/results appear in both lists/)).toBeNull())
+  })
+})
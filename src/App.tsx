@@ -1,212 +1,527 @@
-import { useState, useEffect, useRef } from 'react'
-import { Input } from '@/components/ui/input'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Badge } from '@/components/ui/badge'
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
-import { Search } from 'lucide-react'
-
-// API Base URL from environment variable (empty string uses relative URLs with Vite proxy in dev)
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || ''
-
-// Types
-interface SearchHit {
-  _id: string
-  title: string
-  content: string
-  _score: number
-}
+import { useState, useEffect, useRef, useSyncExternalStore } from 'react'
+import { TooltipProvider } from '@/components/ui/tooltip'
+import { RetrievalSettings } from '@/components/RetrievalSettings'
+import { SearchStats } from '@/components/SearchStats'
+import { SearchBox } from '@/components/SearchBox'
+import { ResultList } from '@/components/ResultList'
+import { CompareView, type CompareSide } from '@/components/CompareView'
+import { DEFAULT_COMPARE_CONFIGS, type CompareConfigs } from '@/lib/compare'
+import { cn } from '@/lib/utils'
+import { PAGE_SIZE } from '@/lib/pagination'
+import { buildSearchUrl, parseDocumentParam, parseSearchUrl, withDocumentParam } from '@/lib/urlState'
+import { FACETS, formatFilter, type ActiveFilter } from '@/lib/facets'
+import { FacetSidebar } from '@/components/FacetSidebar'
+import { FilterChips } from '@/components/FilterChips'
+import { ErrorBanner } from '@/components/ErrorBanner'
+import type { LatencySample } from '@/lib/latency'
+import { LatencyHistory } from '@/components/LatencyHistory'
+import { BenchmarkPanel } from '@/components/BenchmarkPanel'
+import { JudgmentsPanel } from '@/components/JudgmentsPanel'
+import { GradeSelector } from '@/components/GradeSelector'
+import { ToggleButton } from '@/components/ToggleButton'
+import { DebugDrawer } from '@/components/DebugDrawer'
+import { ArticleDrawer } from '@/components/ArticleDrawer'
+import { InstantSearchControls } from '@/components/InstantSearchControls'
+import { RecentSearches, SearchHistoryPanel } from '@/components/SearchHistoryPanel'
+import { ResultExportMenu } from '@/components/ResultExportMenu'
+import { buildResultExport } from '@/lib/resultExport'
+import { canExplain, explainScore, fetchRetrieverHits, type RetrieverHits } from '@/lib/scoreExplanation'
+import { QueryPlayground } from '@/components/QueryPlayground'
+import { IndexSettingsPanel } from '@/components/IndexSettingsPanel'
+import { useSearch } from '@/hooks/useSearch'
+import { createLogger } from '@/lib/logger'
+import { getIndexConfig, type IndexConfig } from '@/lib/indexConfig'
+import { getGrade, loadJudgments, saveJudgments, setGrade, type Grade, type Judgments } from '@/lib/judgments'
+import { DEFAULT_RETRIEVAL_CONFIG, buildSearchRequest, type RetrievalConfig } from '@/lib/retrieval'
+import { fetchSearchResults } from '@/lib/api'
+import { isAbortError, toApiError, type ApiError } from '@/lib/apiClient'
+import { getCacheState, setCacheSettings, subscribeCache } from '@/lib/searchCache'
+import { loadHistory, recordSearch, saveHistory, type SearchHistory } from '@/lib/searchHistory'
+import { isInstantQuery, loadInstantSettings, saveInstantSettings, type InstantSearchSettings } from '@/lib/instantSearch'
+import { describeSearchState, moveActiveIndex, resolveShortcut, targetKind } from '@/lib/shortcuts'
+import type { SearchResponse } from '@/lib/types'
+
+const log = createLogger('App')
+
+// Number of requests kept in the session latency history
+const LATENCY_HISTORY_SIZE = 50
+
+// Path and query string of the current page, as pushed to the history
+const currentUrl = () => window.location.pathname + window.location.search
 
-interface TimingBreakdown {
-  total?: number
-  open?: number
-  request?: number
-  search?: number
-  agg?: number
-  fetch?: number
-  rerank?: number
-}
+function App() {
+  // State
+  const [query, setQuery] = useState('')
+  const [instantSettings, setInstantSettings] = useState<InstantSearchSettings>(loadInstantSettings)
+  // The input shows the query that was searched, so no suggestions are needed
+  const searchPerformed = useRef(false)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  // Result card selected with the keyboard, and the card elements to focus
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const cardRefs = useRef<(HTMLDivElement | null)[]>([])
+  const [retrievalConfig, setRetrievalConfig] = useState<RetrievalConfig>(DEFAULT_RETRIEVAL_CONFIG)
+  const [activeFilters, setActiveFilters] = useState<ActiveFilter[]>([])
+  const [latencyHistory, setLatencyHistory] = useState<LatencySample[]>([])
+  const [benchmarkOpen, setBenchmarkOpen] = useState(false)
+  const [judgmentsOpen, setJudgmentsOpen] = useState(false)
+  const [playgroundOpen, setPlaygroundOpen] = useState(false)
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const [debugOpen, setDebugOpen] = useState(false)
+  // Id of the article in the detail drawer, mirrored in the `doc` URL param
+  const [openDocId, setOpenDocId] = useState<string | null>(null)
+  // URL the open article was pushed over, null unless it was opened in-app
+  const drawerReturnUrlRef = useRef<string | null>(null)
+  const cacheBypassed = useSyncExternalStore(subscribeCache, getCacheState).settings.bypass
+  const [judgments, setJudgments] = useState<Judgments>(loadJudgments)
+  const [history, setHistory] = useState<SearchHistory>(loadHistory)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  // Per-retriever hits of the current hybrid search, for explaining its scores
+  const [explainScores, setExplainScores] = useState(false)
+  const [retrieverHits, setRetrieverHits] = useState<{ hits: RetrieverHits; rankConstant: number } | null>(null)
+  const explainControllerRef = useRef<AbortController | null>(null)
+  // Compare mode runs its own requests next to the single-config search
+  const [compareMode, setCompareMode] = useState(false)
+  const [compareConfigs, setCompareConfigs] = useState<CompareConfigs>(DEFAULT_COMPARE_CONFIGS)
+  const [compareResults, setCompareResults] = useState<{ query: string; left: CompareSide; right: CompareSide } | null>(
+    null
+  )
+  const [compareLoading, setCompareLoading] = useState(false)
+  const [compareRefreshing, setCompareRefreshing] = useState(false)
+  const [compareError, setCompareError] = useState<ApiError | null>(null)
+  const compareControllerRef = useRef<AbortController | null>(null)
 
-interface SearchResponse {
-  hits: SearchHit[]
-  took: TimingBreakdown
-  clientTime: number
-}
+  // Persist judgments whenever they change
+  useEffect(() => {
+    saveJudgments(judgments)
+  }, [judgments])
 
-// API Functions
-async function fetchSearchResults(query: string): Promise<SearchResponse> {
-  const requestBody = {
-    query: {
-      rrf: {
-        retrieve: [
-          {
-            multi_match: {
-              query,
-              fields: ['title', 'content']
-            }
-          },
-          {
-            semantic: {
-              field: 'content',
-              query
-            }
-          }
-        ]
-      }
-    },
-    fields: ['_id', 'title', 'content'],
-    size: 10
+  // Persist search history whenever it changes
+  useEffect(() => {
+    saveHistory(history)
+  }, [history])
+
+  // Keep the timings of recent requests for the session latency panel; cache
+  // hits are skipped since they repeat an earlier request's timings
+  const recordLatency = (searchQuery: string, ...responses: SearchResponse[]) => {
+    const samples = responses.filter((response) => !response.cached).map((response) => ({
+      timestamp: Date.now(),
+      query: searchQuery,
+      took: response.took,
+      clientTime: response.clientTime
+    }))
+    setLatencyHistory((history) => [...history, ...samples].slice(-LATENCY_HISTORY_SIZE))
   }
 
-  const apiUrl = `${API_BASE_URL}/v1/index/wiki/search`
-
-  console.log('[API Request] Search (RRF Hybrid):', {
-    url: apiUrl,
-    method: 'POST',
-    queryType: 'RRF (lexical multi_match + semantic)',
-    lexicalFields: ['title', 'content'],
-    semanticField: 'content',
-    body: requestBody,
-    timestamp: new Date().toISOString()
-  })
-
-  const startTime = performance.now()
-
-  try {
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(requestBody)
-    })
+  const {
+    results,
+    loading: searchLoading,
+    refreshing: searchRefreshing,
+    loadingMore,
+    error: searchError,
+    stats: searchStats,
+    query: searchedQuery,
+    page,
+    hasMore,
+    aggregations,
+    search,
+    loadMore,
+    reset: resetSearch
+  } = useSearch({ facets: FACETS, onResponse: recordLatency })
+
+  // What's on screen depends on the view
+  const loading = compareMode ? compareLoading : searchLoading
+  const refreshing = compareMode ? compareRefreshing : searchRefreshing
+  const error = compareMode ? compareError : searchError
+  const activeQuery = compareMode ? (compareResults?.query ?? '') : searchedQuery
+  // Whether the current view shows a finished search; unlike searchPerformed it
+  // survives editing the query
+  const hasSearched = compareMode ? compareResults !== null : searchStats !== null
+
+  // Runs the lexical and semantic retrievers of a hybrid search on their own.
+  // Failures only hide the explanation; the results themselves are fine.
+  const loadExplanation = async (searchQuery: string, config: RetrievalConfig, filters: ActiveFilter[]) => {
+    explainControllerRef.current?.abort()
+    setRetrieverHits(null)
+    if (!canExplain(config)) return
+
+    const controller = new AbortController()
+    explainControllerRef.current = controller
+    try {
+      const hits = await fetchRetrieverHits(searchQuery, config, { filters, signal: controller.signal })
+      setRetrieverHits({ hits, rankConstant: config.rankConstant })
+    } catch (err) {
+      if (!isAbortError(err)) log.warn('Score explanation failed:', err)
+    }
+  }
 
-    const endTime = performance.now()
-    const clientTime = endTime - startTime
+  // Search function. Restoring from the URL fetches all `pages` in one request
+  // and leaves history alone; new searches push a history entry. Instant
+  // searches replace it instead and keep the current results on screen.
+  const performSearch = async (
+    searchQuery: string,
+    {
+      config = retrievalConfig,
+      filters = activeFilters,
+      pages = 1,
+      updateUrl = true,
+      instant = false
+    }: { config?: RetrievalConfig; filters?: ActiveFilter[]; pages?: number; updateUrl?: boolean; instant?: boolean } = {}
+  ) => {
+    if (!searchQuery.trim()) {
+      log.debug('Search ignored - empty query')
+      return
+    }
 
-    if (!response.ok) {
-      console.error('[API Error] Search failed:', {
-        status: response.status,
-        statusText: response.statusText,
-        responseTime: `${clientTime.toFixed(2)}ms`
-      })
-      throw new Error('Search request failed')
+    if (updateUrl) {
+      const url = buildSearchUrl({ query: searchQuery, config, filters, page: pages })
+      if (url !== window.location.pathname + window.location.search) {
+        if (instant) {
+          window.history.replaceState(null, '', url)
+        } else {
+          window.history.pushState(null, '', url)
+        }
+      }
+      setOpenDocId(null)
     }
+    searchPerformed.current = true
 
-    const data = await response.json()
-
-    console.log('[API Response] Search:', {
-      hitCount: data.hits.length,
-      titles: data.hits.slice(0, 3).map((h: SearchHit) => h.title),
-      took: data.took,
-      timingBreakdown: {
-        total: data.took.total ? `${(data.took.total * 1000).toFixed(1)}ms` : 'N/A',
-        open: data.took.open ? `${(data.took.open * 1000).toFixed(1)}ms` : 'N/A',
-        request: data.took.request ? `${(data.took.request * 1000).toFixed(1)}ms` : 'N/A',
-        search: data.took.search ? `${(data.took.search * 1000).toFixed(1)}ms` : 'N/A',
-        rerank: data.took.rerank ? `${(data.took.rerank * 1000).toFixed(1)}ms` : 'N/A',
-        agg: data.took.agg ? `${(data.took.agg * 1000).toFixed(1)}ms` : 'N/A',
-        fetch: data.took.fetch ? `${(data.took.fetch * 1000).toFixed(1)}ms` : 'N/A'
-      },
-      clientTime: `${clientTime.toFixed(1)}ms`,
-      timestamp: new Date().toISOString()
-    })
+    const data = await search(searchQuery, { config, filters, pages, instant })
+    if (!data) return
+    // Instant searches are mostly partial queries, so only searches that were
+    // submitted go into the history
+    if (!instant) {
+      setHistory((current) =>
+        recordSearch(current, {
+          query: searchQuery,
+          timestamp: Date.now(),
+          hits: data.hits.length,
+          clientMs: data.clientTime,
+          serverMs: data.took.total !== undefined ? data.took.total * 1000 : undefined
+        })
+      )
+    }
+    setActiveIndex(-1)
+    if (explainScores) {
+      loadExplanation(searchQuery, config, filters)
+    } else {
+      setRetrieverHits(null)
+    }
+  }
 
-    // Log first hit structure to debug _score issue
-    if (data.hits.length > 0) {
-      console.log('[API Response] First hit keys:', Object.keys(data.hits[0]))
-      console.log('[API Response] First hit full object:', JSON.stringify(data.hits[0], null, 2))
-      console.log('[API Response] _score value:', data.hits[0]._score)
-      console.log('[API Response] Full response structure:', JSON.stringify(data, null, 2))
+  // Restore search state from the URL on load and on browser back/forward.
+  // The listener goes through a ref so it always sees the latest state.
+  const restoreFromUrl = () => {
+    setOpenDocId(parseDocumentParam(window.location.search))
+    // Back from an article opened in-app: the search underneath is unchanged
+    const returnUrl = drawerReturnUrlRef.current
+    drawerReturnUrlRef.current = null
+    if (returnUrl !== null && returnUrl === currentUrl()) {
+      // Return focus to the card the article was opened from
+      cardRefs.current[activeIndex]?.focus()
+      return
     }
 
-    return {
-      hits: data.hits,
-      took: data.took,
-      clientTime
+    const state = parseSearchUrl(window.location.search)
+    log.debug('Restoring search from URL:', state)
+    if (!state) {
+      resetSearch()
+      compareControllerRef.current?.abort()
+      setCompareResults(null)
+      setCompareError(null)
+      setQuery('')
+      setActiveFilters([])
+      searchPerformed.current = false
+      return
     }
-  } catch (err) {
-    console.error('[API Error] Search exception:', err)
-    throw err
+    setQuery(state.query)
+    setRetrievalConfig(state.config)
+    setActiveFilters(state.filters)
+    setCompareMode(false)
+    performSearch(state.query, {
+      config: state.config,
+      filters: state.filters,
+      pages: state.page,
+      updateUrl: false
+    })
   }
-}
 
-function App() {
-  // State
-  const [query, setQuery] = useState('')
-  const [results, setResults] = useState<SearchHit[]>([])
-  const [loading, setLoading] = useState(false)
-  const [searchStats, setSearchStats] = useState<{ took: TimingBreakdown; count: number; clientTime: number } | null>(null)
-  const [error, setError] = useState<string | null>(null)
-  const searchPerformed = useRef(false)
+  const restoreFromUrlRef = useRef(restoreFromUrl)
+  useEffect(() => {
+    restoreFromUrlRef.current = restoreFromUrl
+  })
 
-  // Log when results change
   useEffect(() => {
-    if (results.length > 0) {
-      console.log('[State] Results rendered:', results.length, 'items')
-      console.log('[State] Result titles:', results.map(r => r.title))
+    const onPopState = () => restoreFromUrlRef.current()
+    onPopState()
+    window.addEventListener('popstate', onPopState)
+    return () => window.removeEventListener('popstate', onPopState)
+  }, [])
+
+  // Load the next page of the last search and keep the page count in the URL
+  const handleLoadMore = async () => {
+    if (!searchStats) return
+    const nextPage = page + 1
+    if (await loadMore()) {
+      window.history.replaceState(
+        null,
+        '',
+        buildSearchUrl({ query: searchedQuery, config: searchStats.config, filters: activeFilters, page: nextPage })
+      )
     }
-  }, [results])
+  }
 
-  // Search function
-  const performSearch = async (searchQuery: string) => {
+  // Compare search: run both configs in parallel for the same query
+  const performCompareSearch = async (
+    searchQuery: string,
+    configs: CompareConfigs = compareConfigs,
+    filters: ActiveFilter[] = activeFilters,
+    instant = false
+  ) => {
     if (!searchQuery.trim()) {
-      console.log('[User Action] Search ignored - empty query')
+      log.debug('Compare search ignored - empty query')
       return
     }
 
-    console.log('[User Action] Performing search for:', searchQuery)
-    console.log('[State] Setting loading = true')
-    setLoading(true)
-    console.log('[State] Clearing error state')
-    setError(null)
+    log.info('Compare search:', searchQuery)
+    if (instant && compareResults !== null) {
+      setCompareRefreshing(true)
+    } else {
+      setCompareLoading(true)
+    }
+    setCompareError(null)
     searchPerformed.current = true
+    compareControllerRef.current?.abort()
+    const controller = new AbortController()
+    compareControllerRef.current = controller
 
     try {
-      const data = await fetchSearchResults(searchQuery)
-      console.log('[State] Setting search results:', data.hits.length, 'hits')
-      setResults(data.hits)
-      console.log('[State] Setting search stats:', {
-        took: data.took,
-        count: data.hits.length,
-        clientTime: data.clientTime
+      const [left, right] = await Promise.all([
+        fetchSearchResults(searchQuery, configs.left, { filters, signal: controller.signal }),
+        fetchSearchResults(searchQuery, configs.right, { filters, signal: controller.signal })
+      ])
+      recordLatency(searchQuery, left, right)
+      log.debug('Compare results:', {
+        left: left.hits.length,
+        right: right.hits.length
+      })
+      setCompareResults({
+        query: searchQuery,
+        left: { config: configs.left, response: left },
+        right: { config: configs.right, response: right }
       })
-      setSearchStats({ took: data.took, count: data.hits.length, clientTime: data.clientTime })
     } catch (err) {
-      console.error('[State] Setting error state')
-      setError('Search failed. Please try again.')
-      console.error('[API Error] Search error:', err)
+      if (isAbortError(err)) return
+      setCompareError(toApiError(err))
+      log.error('Compare search error:', err)
     } finally {
-      console.log('[State] Setting loading = false')
-      setLoading(false)
+      if (compareControllerRef.current === controller) {
+        setCompareLoading(false)
+        setCompareRefreshing(false)
+      }
+    }
+  }
+
+  // Run the query in whichever view is active
+  const runSearch = (searchQuery: string, instant = false) => {
+    if (compareMode) {
+      performCompareSearch(searchQuery, compareConfigs, activeFilters, instant)
+    } else {
+      performSearch(searchQuery, { instant })
     }
   }
 
-  // Handle input change
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newValue = e.target.value
-    console.log('[User Action] Input changed:', newValue)
-    setQuery(newValue)
+  // Search as you type: once typing pauses, search for a long enough query.
+  // Typing again clears the timer, and startRequest cancels a search in flight.
+  const runSearchRef = useRef(runSearch)
+  useEffect(() => {
+    runSearchRef.current = runSearch
+  })
+
+  useEffect(() => {
+    if (searchPerformed.current || !isInstantQuery(query, instantSettings)) return
+    const timer = setTimeout(() => {
+      // Enter may have searched already while the timer was pending
+      if (!searchPerformed.current) runSearchRef.current(query, true)
+    }, instantSettings.debounceMs)
+    return () => clearTimeout(timer)
+  }, [query, instantSettings])
+
+  const toggleExplainScores = () => {
+    const next = !explainScores
+    setExplainScores(next)
+    if (next && searchStats && activeQuery) {
+      loadExplanation(activeQuery, searchStats.config, activeFilters)
+    } else {
+      explainControllerRef.current?.abort()
+      setRetrieverHits(null)
+    }
+  }
+
+  // Run a search picked from the history
+  const runFromHistory = (historyQuery: string) => {
+    setQuery(historyQuery)
+    runSearch(historyQuery)
+  }
+
+  const handleInstantSettingsChange = (settings: InstantSearchSettings) => {
+    setInstantSettings(settings)
+    saveInstantSettings(settings)
+  }
+
+  // Editing the query brings suggestions back
+  const handleQueryChange = (value: string) => {
+    setQuery(value)
     searchPerformed.current = false
   }
 
-  // Handle key press
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    console.log('[User Action] Key pressed:', e.key)
+  // Handle retrieval config change: a mode switch re-runs the current search
+  const handleConfigChange = (config: RetrievalConfig) => {
+    log.debug('Retrieval config changed:', config)
+    const modeChanged = config.mode !== retrievalConfig.mode
+    setRetrievalConfig(config)
+    if (modeChanged && searchPerformed.current) {
+      performSearch(query, { config })
+    }
+  }
+
+  // Handle compare column config change: a mode switch re-runs the comparison
+  const handleCompareConfigChange = (side: keyof CompareConfigs, config: RetrievalConfig) => {
+    log.debug('Compare config changed:', side, config)
+    const modeChanged = config.mode !== compareConfigs[side].mode
+    const configs = { ...compareConfigs, [side]: config }
+    setCompareConfigs(configs)
+    if (modeChanged && searchPerformed.current) {
+      performCompareSearch(query, configs)
+    }
+  }
+
+  // Handle new index settings: filters may not exist in the new index, so
+  // they are dropped and the last query re-run
+  const handleIndexConfigChange = (config: IndexConfig) => {
+    log.info('Index config changed:', config)
+    setActiveFilters([])
+    if (activeQuery) {
+      if (compareMode) {
+        performCompareSearch(activeQuery, compareConfigs, [])
+      } else {
+        performSearch(activeQuery, { filters: [] })
+      }
+    }
+  }
+
+  // Add or remove a facet filter and re-run the last search with it
+  const toggleFilter = (filter: ActiveFilter) => {
+    const key = formatFilter(filter)
+    const filters = activeFilters.some((f) => formatFilter(f) === key)
+      ? activeFilters.filter((f) => formatFilter(f) !== key)
+      : [...activeFilters, filter]
+    log.debug('Filters changed:', filters.map(formatFilter))
+    setActiveFilters(filters)
+    if (activeQuery) {
+      if (compareMode) {
+        performCompareSearch(activeQuery, compareConfigs, filters)
+      } else {
+        performSearch(activeQuery, { filters })
+      }
+    }
+  }
+
+  // Grade a result for the query it was retrieved with
+  const handleGrade = (docId: string, grade: Grade | null) => {
+    log.debug('Judgment:', { query: activeQuery, docId, grade })
+    setJudgments((current) => setGrade(current, activeQuery, docId, grade))
+  }
 
-    if (e.key === 'Enter') {
-      console.log('[User Action] Enter key - triggering search')
-      performSearch(query)
+  // Opening an article from the results pushes one history entry, so back
+  // closes it; articles opened from the drawer replace that entry
+  const openDocument = (id: string) => {
+    const url = currentUrl()
+    setOpenDocId(id)
+    if (openDocId === null) {
+      drawerReturnUrlRef.current = url
+      window.history.pushState(null, '', withDocumentParam(url, id))
+    } else {
+      window.history.replaceState(null, '', withDocumentParam(url, id))
     }
   }
 
-  // Truncate text to 500 characters
-  const truncateText = (text: string, maxLength: number = 500): string => {
-    if (text.length <= maxLength) return text
-    return text.substring(0, maxLength) + '...'
+  // Closing goes back to the results entry when the article was opened in-app.
+  // A deep-linked article has no such entry, so its param is just dropped.
+  const closeDocument = () => {
+    if (drawerReturnUrlRef.current !== null) {
+      window.history.back()
+      return
+    }
+    setOpenDocId(null)
+    window.history.replaceState(null, '', withDocumentParam(currentUrl(), null))
+    cardRefs.current[activeIndex]?.focus()
+  }
+
+  // Toggle compare mode, re-running the current query in the new view
+  const toggleCompareMode = () => {
+    const enabled = !compareMode
+    log.debug('Compare mode:', enabled)
+    setCompareMode(enabled)
+    if (searchPerformed.current) {
+      if (enabled) {
+        performCompareSearch(query)
+      } else {
+        performSearch(query)
+      }
+    }
   }
 
+  // Global keyboard shortcuts, resolved by lib/shortcuts. The listener goes
+  // through a ref so it always sees the latest state.
+  const handleShortcutRef = useRef<(e: KeyboardEvent) => void>(() => {})
+  useEffect(() => {
+    handleShortcutRef.current = (e) => {
+      if (e.defaultPrevented) return
+      const resultCount = loading || compareMode ? 0 : results.length
+      const action = resolveShortcut(e, {
+        target: targetKind(e.target instanceof HTMLElement ? e.target : null),
+        overlayOpen: openDocId !== null,
+        resultCount
+      })
+      if (!action) return
+
+      e.preventDefault()
+      log.debug('Shortcut:', action)
+      switch (action) {
+        case 'focus-search':
+          searchInputRef.current?.focus()
+          break
+        case 'next':
+        case 'previous': {
+          const next = moveActiveIndex(activeIndex, action, resultCount)
+          setActiveIndex(next)
+          cardRefs.current[next]?.focus()
+          break
+        }
+        case 'open':
+          if (results[activeIndex]) openDocument(results[activeIndex]._id)
+          break
+        case 'clear':
+          handleQueryChange('')
+          setActiveIndex(-1)
+          searchInputRef.current?.focus()
+          break
+      }
+    }
+  })
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => handleShortcutRef.current(e)
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
+
+  const showFacets = !compareMode && FACETS.length > 0 && aggregations !== null
+
   return (
     <TooltipProvider delayDuration={0}>
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
-        <div className="container mx-auto px-4 py-12 max-w-4xl">
+        <div className={cn('container mx-auto px-4 py-12', compareMode || showFacets ? 'max-w-6xl' : 'max-w-4xl')}>
         {/* Header */}
         <div className="text-center mb-12">
           <h1 className="text-5xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent mb-4">
@@ -218,186 +533,237 @@ function App() {
         </div>
 
         {/* Search Box */}
-        <div className="relative mb-8">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
-            <Input
-              type="text"
-              placeholder="Search Wikipedia articles..."
-              value={query}
-              onChange={handleInputChange}
-              onKeyDown={handleKeyPress}
-              className="pl-10 h-14 text-lg shadow-lg border-2 focus:border-blue-400"
-            />
+        <div className="mb-8">
+          <SearchBox
+            ref={searchInputRef}
+            value={query}
+            onChange={handleQueryChange}
+            onSubmit={(submitted) => runSearch(submitted)}
+            // Instant mode shows results instead, so it has no suggestions
+            suggest={!searchPerformed.current && !instantSettings.enabled}
+            busy={refreshing}
+            keyShortcuts="/"
+          />
+
+          <div className="flex items-start justify-between gap-4 mt-3">
+            {compareMode ? (
+              <div className="space-y-2">
+                <RetrievalSettings
+                  label="A"
+                  config={compareConfigs.left}
+                  onChange={(config) => handleCompareConfigChange('left', config)}
+                />
+                <RetrievalSettings
+                  label="B"
+                  config={compareConfigs.right}
+                  onChange={(config) => handleCompareConfigChange('right', config)}
+                />
+              </div>
+            ) : (
+              <RetrievalSettings config={retrievalConfig} onChange={handleConfigChange} />
+            )}
+            <div className="flex shrink-0 gap-2">
+              <ToggleButton pressed={compareMode} onClick={toggleCompareMode}>
+                Compare
+              </ToggleButton>
+              <ToggleButton pressed={benchmarkOpen} onClick={() => setBenchmarkOpen(!benchmarkOpen)}>
+                Benchmark
+              </ToggleButton>
+              <ToggleButton pressed={explainScores} onClick={toggleExplainScores}>
+                Explain
+              </ToggleButton>
+              <ToggleButton pressed={historyOpen} onClick={() => setHistoryOpen(!historyOpen)}>
+                History
+              </ToggleButton>
+              <ToggleButton pressed={judgmentsOpen} onClick={() => setJudgmentsOpen(!judgmentsOpen)}>
+                Judgments
+              </ToggleButton>
+              <ToggleButton pressed={playgroundOpen} onClick={() => setPlaygroundOpen(!playgroundOpen)}>
+                Playground
+              </ToggleButton>
+              <ToggleButton pressed={settingsOpen} onClick={() => setSettingsOpen(!settingsOpen)}>
+                Index
+              </ToggleButton>
+              <ToggleButton pressed={cacheBypassed} onClick={() => setCacheSettings({ bypass: !cacheBypassed })}>
+                Bypass cache
+              </ToggleButton>
+              <ToggleButton pressed={debugOpen} onClick={() => setDebugOpen(!debugOpen)}>
+                Debug
+              </ToggleButton>
+            </div>
+          </div>
+          <div className="mt-2">
+            <InstantSearchControls settings={instantSettings} onChange={handleInstantSettingsChange} />
           </div>
         </div>
 
-        {/* Search Stats */}
-        {searchStats && (
-          <div className="mb-6">
-            <div className="text-sm text-gray-600 mb-2">
-              Found {searchStats.count} results in{' '}
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <span className="cursor-help underline decoration-dotted hover:decoration-solid">
-                    {searchStats.took.total ? (searchStats.took.total * 1000).toFixed(1) : '0.0'}ms server
-                  </span>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <p>Total backend processing time as seen by Nixiesearch</p>
-                </TooltipContent>
-              </Tooltip>
-              ,{' '}
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <span className="cursor-help underline decoration-dotted hover:decoration-solid">
-                    {searchStats.clientTime.toFixed(1)}ms client
-                  </span>
-                </TooltipTrigger>
-                <TooltipContent>
-                  <p>Total REST call latency, includes networking and lambda init</p>
-                </TooltipContent>
-              </Tooltip>
-            </div>
-            <div className="text-xs text-gray-500 flex flex-wrap gap-x-4 gap-y-1">
-              {searchStats.took.open !== undefined && (
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <span className="cursor-help underline decoration-dotted hover:decoration-solid">
-                      <span className="font-medium">Open:</span> {(searchStats.took.open * 1000).toFixed(1)}ms
-                    </span>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Lucene index open</p>
-                  </TooltipContent>
-                </Tooltip>
-              )}
-              {searchStats.took.request !== undefined && (
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <span className="cursor-help underline decoration-dotted hover:decoration-solid">
-                      <span className="font-medium">Request:</span> {(searchStats.took.request * 1000).toFixed(1)}ms
-                    </span>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Request building time, includes running the embedding model</p>
-                  </TooltipContent>
-                </Tooltip>
-              )}
-              {searchStats.took.search !== undefined && (
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <span className="cursor-help underline decoration-dotted hover:decoration-solid">
-                      <span className="font-medium">Search:</span> {(searchStats.took.search * 1000).toFixed(1)}ms
-                    </span>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Doing actual search over documents</p>
-                  </TooltipContent>
-                </Tooltip>
-              )}
-              {searchStats.took.rerank !== undefined && (
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <span className="cursor-help underline decoration-dotted hover:decoration-solid">
-                      <span className="font-medium">Rerank:</span> {(searchStats.took.rerank * 1000).toFixed(1)}ms
-                    </span>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Post-search reranking</p>
-                  </TooltipContent>
-                </Tooltip>
-              )}
-              {searchStats.took.agg !== undefined && (
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <span className="cursor-help underline decoration-dotted hover:decoration-solid">
-                      <span className="font-medium">Agg:</span> {(searchStats.took.agg * 1000).toFixed(1)}ms
-                    </span>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Facet aggregations</p>
-                  </TooltipContent>
-                </Tooltip>
-              )}
-              {searchStats.took.fetch !== undefined && (
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <span className="cursor-help underline decoration-dotted hover:decoration-solid">
-                      <span className="font-medium">Fetch:</span> {(searchStats.took.fetch * 1000).toFixed(1)}ms
-                    </span>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Loading document fields</p>
-                  </TooltipContent>
-                </Tooltip>
-              )}
-            </div>
-          </div>
-        )}
+        {/* Index Settings */}
+        {settingsOpen && <IndexSettingsPanel onChange={handleIndexConfigChange} />}
 
-        {/* Loading State */}
-        {loading && (
-          <div className="text-center py-12">
-            <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-            <p className="mt-4 text-gray-600">Searching...</p>
-          </div>
-        )}
+        {/* Search History */}
+        {historyOpen && <SearchHistoryPanel history={history} onRun={runFromHistory} onChange={setHistory} />}
 
-        {/* Error State */}
-        {error && (
-          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
-            <p className="text-red-800">{error}</p>
-          </div>
-        )}
+        {/* Benchmark */}
+        {benchmarkOpen && <BenchmarkPanel config={retrievalConfig} />}
 
-        {/* Results */}
-        {!loading && results.length > 0 && (
-          <div className="space-y-4">
-            {results.map((hit) => (
-              <Card
-                key={hit._id}
-                className="hover:shadow-lg transition-all duration-200 border-l-4 border-l-blue-500"
-              >
-                <CardHeader className="pb-3">
-                  <div className="flex items-start justify-between">
-                    <CardTitle className="text-xl text-blue-600 hover:text-blue-700">
-                      {hit.title}
-                    </CardTitle>
-                    <Badge variant="secondary" className="ml-4 shrink-0">
-                      Score: {hit._score.toFixed(4)}
-                    </Badge>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-gray-700 leading-relaxed">
-                    {truncateText(hit.content)}
-                  </p>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
+        {/* Query Playground */}
+        {playgroundOpen && (
+          <QueryPlayground query={activeQuery || query} config={retrievalConfig} filters={activeFilters} />
         )}
 
-        {/* Empty State */}
-        {!loading && searchPerformed.current && results.length === 0 && !error && (
-          <div className="text-center py-12">
-            <div className="text-gray-400 text-6xl mb-4">🔍</div>
-            <h3 className="text-xl font-semibold text-gray-700 mb-2">No results found</h3>
-            <p className="text-gray-600">Try a different search term</p>
-          </div>
+        {/* Judgments */}
+        {judgmentsOpen && (
+          <JudgmentsPanel judgments={judgments} onChange={setJudgments} config={retrievalConfig} />
         )}
 
-        {/* Initial State */}
-        {!loading && !searchPerformed.current && results.length === 0 && (
-          <div className="text-center py-12">
-            <div className="text-gray-400 text-6xl mb-4">📚</div>
-            <h3 className="text-xl font-semibold text-gray-700 mb-2">Start searching</h3>
-            <p className="text-gray-600">Enter a query to search Wikipedia articles</p>
+        {/* Active Filters */}
+        <FilterChips filters={activeFilters} facets={FACETS} onRemove={toggleFilter} />
+
+        <div className={cn(showFacets && 'md:grid md:grid-cols-[14rem_1fr] md:gap-8')}>
+          {/* Facets */}
+          {showFacets && (
+            <FacetSidebar
+              facets={FACETS}
+              aggregations={aggregations}
+              activeFilters={activeFilters}
+              onToggle={toggleFilter}
+            />
+          )}
+
+          <div className="min-w-0">
+            {/* Search Stats */}
+            {!compareMode && searchStats && (
+              <SearchStats stats={searchStats} />
+            )}
+
+            {/* Export */}
+            {!compareMode && searchStats && results.length > 0 && (
+              <ResultExportMenu
+                getExport={() =>
+                  buildResultExport({
+                    query: activeQuery,
+                    hits: results,
+                    config: searchStats.config,
+                    indexConfig: getIndexConfig(),
+                    // All loaded pages, as one request like a restored URL
+                    request: buildSearchRequest(activeQuery, searchStats.config, {
+                      size: page * PAGE_SIZE,
+                      filters: activeFilters,
+                      facets: FACETS
+                    }),
+                    took: searchStats.took,
+                    clientTime: searchStats.clientTime
+                  })
+                }
+              />
+            )}
+
+            <LatencyHistory samples={latencyHistory} onClear={() => setLatencyHistory([])} />
+
+            {/* Result count, loading and empty states for screen readers */}
+            <p role="status" aria-live="polite" className="sr-only">
+              {describeSearchState({
+                loading,
+                query: activeQuery,
+                count: results.length,
+                hasMore,
+                searched: hasSearched && !compareMode
+              })}
+            </p>
+
+            {/* Loading State */}
+            {loading && (
+              <div className="text-center py-12">
+                <div aria-hidden="true" className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                <p className="mt-4 text-gray-600">Searching...</p>
+              </div>
+            )}
+
+            {/* Error State */}
+            {error && <ErrorBanner error={error} />}
+
+            {/* Results */}
+            {!loading && !compareMode && results.length > 0 && (
+              <ResultList
+                hits={results}
+                query={activeQuery}
+                busy={refreshing}
+                hasMore={hasMore}
+                loadingMore={loadingMore}
+                onLoadMore={handleLoadMore}
+                activeIndex={activeIndex}
+                onActiveIndexChange={setActiveIndex}
+                cardRef={(index, element) => {
+                  cardRefs.current[index] = element
+                }}
+                onOpen={(hit) => openDocument(hit._id)}
+                explain={
+                  retrieverHits
+                    ? (hit) => explainScore(hit._id, retrieverHits.hits, retrieverHits.rankConstant)
+                    : undefined
+                }
+                renderControls={
+                  judgmentsOpen
+                    ? (hit) => (
+                        <GradeSelector
+                          grade={getGrade(judgments, activeQuery, hit._id)}
+                          onChange={(grade) => handleGrade(hit._id, grade)}
+                        />
+                      )
+                    : undefined
+                }
+              />
+            )}
+
+            {/* Compare Results */}
+            {!loading && compareMode && compareResults && (
+              <CompareView left={compareResults.left} right={compareResults.right} />
+            )}
+
+            {/* Empty State */}
+            {!loading && !compareMode && hasSearched && results.length === 0 && !error && (
+              <div className="text-center py-12">
+                <div className="text-gray-400 text-6xl mb-4">🔍</div>
+                <h3 className="text-xl font-semibold text-gray-700 mb-2">No results found</h3>
+                <p className="text-gray-600">Try a different search term</p>
+              </div>
+            )}
+
+            {/* Initial State */}
+            {!loading && !error && !hasSearched && (
+              <div className="text-center py-12">
+                <div className="text-gray-400 text-6xl mb-4">📚</div>
+                <h3 className="text-xl font-semibold text-gray-700 mb-2">Start searching</h3>
+                <p className="text-gray-600">Enter a query to search Wikipedia articles</p>
+                <p className="mt-4 text-xs text-gray-500">
+                  <kbd className="rounded border border-gray-300 bg-white px-1 font-mono">/</kbd> search ·{' '}
+                  <kbd className="rounded border border-gray-300 bg-white px-1 font-mono">j</kbd>{' '}
+                  <kbd className="rounded border border-gray-300 bg-white px-1 font-mono">k</kbd> move between results ·{' '}
+                  <kbd className="rounded border border-gray-300 bg-white px-1 font-mono">Enter</kbd> open ·{' '}
+                  <kbd className="rounded border border-gray-300 bg-white px-1 font-mono">Esc</kbd> clear
+                </p>
+                {!historyOpen && <RecentSearches history={history} onRun={runFromHistory} onChange={setHistory} />}
+              </div>
+            )}
           </div>
-        )}
+        </div>
         </div>
       </div>
+
+      {/* Debug */}
+      {debugOpen && <DebugDrawer onClose={() => setDebugOpen(false)} />}
+
+      {/* Article */}
+      {openDocId !== null && (
+        <ArticleDrawer
+          key={openDocId}
+          docId={openDocId}
+          hit={results.find((hit) => hit._id === openDocId)}
+          query={activeQuery}
+          onOpen={(hit) => openDocument(hit._id)}
+          onClose={closeDocument}
+        />
+      )}
     </TooltipProvider>
   )
 }
@@ -0,0 +1,168 @@
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Highlighted } from '@/components/Highlighted'
+import { ErrorBanner } from '@/components/ErrorBanner'
+import { fetchDocument, fetchSearchResults } from '@/lib/api'
+import { isAbortError, toApiError, type ApiError } from '@/lib/apiClient'
+import { highlightField } from '@/lib/highlight'
+import { extraFields, hitContent, hitTitle } from '@/lib/hits'
+import { getIndexConfig, subscribeIndexConfig } from '@/lib/indexConfig'
+import { createLogger } from '@/lib/logger'
+import { RELATED_CONFIG, RELATED_COUNT, leadText, relatedQuery, withoutDocument } from '@/lib/related'
+import type { SearchHit } from '@/lib/types'
+
+const log = createLogger('Article')
+
+interface ArticleDrawerProps {
+  docId: string
+  // The hit as returned by the current search; without it the document is
+  // looked up by id and has no score
+  hit?: SearchHit
+  // Query whose terms are highlighted in the article
+  query: string
+  onOpen: (hit: SearchHit) => void
+  onClose: () => void
+}
+
+type LoadState<T> = { status: 'loading' } | { status: 'done'; value: T } | { status: 'error'; error: ApiError }
+
+function RelatedArticles({ article, onOpen }: { article: SearchHit; onOpen: (hit: SearchHit) => void }) {
+  const indexConfig = useSyncExternalStore(subscribeIndexConfig, getIndexConfig)
+  const [related, setRelated] = useState<LoadState<SearchHit[]>>({ status: 'loading' })
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setRelated({ status: 'loading' })
+    fetchSearchResults(relatedQuery(article, indexConfig), RELATED_CONFIG, {
+      size: RELATED_COUNT + 1,
+      signal: controller.signal
+    })
+      .then((data) => setRelated({ status: 'done', value: withoutDocument(data.hits, article._id) }))
+      .catch((err) => {
+        if (isAbortError(err)) return
+        log.error('Related articles error:', err)
+        setRelated({ status: 'error', error: toApiError(err) })
+      })
+    return () => controller.abort()
+  }, [article, indexConfig])
+
+  return (
+    <section aria-labelledby="related-articles" className="mt-6 border-t border-gray-200 pt-4">
+      <h3 id="related-articles" className="mb-2 text-sm font-semibold text-gray-700">
+        Related articles
+      </h3>
+      {related.status === 'loading' && <p className="text-gray-500">Searching for related articles...</p>}
+      {related.status === 'error' && <ErrorBanner error={related.error} />}
+      {related.status === 'done' && related.value.length === 0 && <p className="text-gray-500">No related articles found.</p>}
+      {related.status === 'done' && related.value.length > 0 && (
+        <ul className="space-y-2">
+          {related.value.map((hit) => (
+            <li key={hit._id}>
+              <button
+                type="button"
+                onClick={() => onOpen(hit)}
+                className="w-full rounded-md border border-gray-200 p-2 text-left hover:bg-gray-50"
+              >
+                <span className="flex items-start justify-between gap-2">
+                  <span className="font-medium text-blue-600">{hitTitle(hit, indexConfig)}</span>
+                  <span className="shrink-0 text-gray-400">{hit._score.toFixed(4)}</span>
+                </span>
+                <span className="mt-1 block text-gray-600">{leadText(hitContent(hit, indexConfig), 160)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+// Side drawer with the full stored document, its score and related articles
+export function ArticleDrawer({ docId, hit, query, onOpen, onClose }: ArticleDrawerProps) {
+  const indexConfig = useSyncExternalStore(subscribeIndexConfig, getIndexConfig)
+  const [fetched, setFetched] = useState<LoadState<SearchHit | null>>({ status: 'loading' })
+
+  // Deep links open the drawer before (or without) a search, so look the document up
+  useEffect(() => {
+    if (hit) return
+    const controller = new AbortController()
+    setFetched({ status: 'loading' })
+    fetchDocument(docId, { signal: controller.signal })
+      .then((document) => setFetched({ status: 'done', value: document }))
+      .catch((err) => {
+        if (isAbortError(err)) return
+        log.error('Document error:', err)
+        setFetched({ status: 'error', error: toApiError(err) })
+      })
+    return () => controller.abort()
+  }, [docId, hit])
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [onClose])
+
+  const article = hit ?? (fetched.status === 'done' ? fetched.value : null)
+
+  return (
+    <aside
+      className="fixed inset-y-0 right-0 z-40 flex w-full max-w-2xl flex-col border-l border-gray-200 bg-white text-sm text-gray-600 shadow-2xl"
+      role="dialog"
+      aria-label="Article"
+    >
+      <div className="flex items-start gap-3 border-b border-gray-200 p-4">
+        <h2 className="flex-1 text-xl font-semibold text-gray-800">
+          {article ? <Highlighted segments={highlightField(hitTitle(article, indexConfig), query, undefined)} /> : docId}
+        </h2>
+        {hit && (
+          <Badge variant="secondary" className="shrink-0">
+            Score: {hit._score.toFixed(4)}
+          </Badge>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close article"
+          // Moves keyboard focus into the drawer when it opens
+          autoFocus
+          className="rounded p-1 hover:bg-gray-100"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto p-4">
+        {!article && fetched.status === 'loading' && <p className="text-gray-500">Loading article...</p>}
+        {!article && fetched.status === 'error' && <ErrorBanner error={fetched.error} />}
+        {!article && fetched.status === 'done' && (
+          <p className="text-gray-500">
+            No document with id <code className="font-mono">{docId}</code> in this index.
+          </p>
+        )}
+        {article && (
+          <>
+            {!hit && <p className="mb-3 text-xs text-gray-400">Opened by id, so there is no search score.</p>}
+            <p className="whitespace-pre-line leading-relaxed text-gray-700">
+              <Highlighted segments={highlightField(hitContent(article, indexConfig), query, undefined)} />
+            </p>
+            <dl className="mt-4 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs text-gray-600">
+              <dt className="font-medium text-gray-500">_id</dt>
+              <dd className="break-all font-mono">{article._id}</dd>
+              {extraFields(article, indexConfig).map(([name, text]) => (
+                <div key={name} className="contents">
+                  <dt className="font-medium text-gray-500">{name}</dt>
+                  <dd className="break-words">{text}</dd>
+                </div>
+              ))}
+            </dl>
+            <RelatedArticles article={article} onOpen={onOpen} />
+          </>
+        )}
+      </div>
+    </aside>
+  )
+}
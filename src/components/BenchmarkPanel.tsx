@@ -0,0 +1,163 @@
+import { useRef, useState } from 'react'
+import { NumberField } from '@/components/NumberField'
+import { LatencySummaryTable } from '@/components/LatencySummaryTable'
+import {
+  DEFAULT_BENCHMARK_SETTINGS,
+  benchmarkToCsv,
+  benchmarkToJson,
+  parseQueryList,
+  runBenchmark,
+  summarizeBenchmark,
+  type BenchmarkResult,
+  type BenchmarkSettings
+} from '@/lib/benchmark'
+import { downloadFile, fileTimestamp } from '@/lib/download'
+import { describeRetrievalConfig, type RetrievalConfig } from '@/lib/retrieval'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('Benchmark')
+
+interface BenchmarkPanelProps {
+  // Retrieval config every benchmark request is sent with
+  config: RetrievalConfig
+}
+
+const buttonClass =
+  'px-3 py-1 text-xs font-medium rounded-md border border-gray-200 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+
+// Replays a query list against the search API and reports latency percentiles
+export function BenchmarkPanel({ config }: BenchmarkPanelProps) {
+  const [queriesText, setQueriesText] = useState('')
+  const [settings, setSettings] = useState<BenchmarkSettings>(DEFAULT_BENCHMARK_SETTINGS)
+  const [results, setResults] = useState<BenchmarkResult[]>([])
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null)
+  const [running, setRunning] = useState(false)
+  // Config and settings of the last run, used for exports
+  const [lastRun, setLastRun] = useState<{ config: RetrievalConfig; settings: BenchmarkSettings } | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const queries = parseQueryList(queriesText)
+
+  const start = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setRunning(true)
+    setResults([])
+    setLastRun({ config, settings })
+    setProgress({ completed: 0, total: queries.length * settings.repetitions })
+    log.info('Starting:', { queries: queries.length, settings, config })
+
+    try {
+      const finished = await runBenchmark(queries, config, settings, {
+        signal: controller.signal,
+        onResult: (_, completed, total) => setProgress({ completed, total })
+      })
+      log.info('Finished:', finished.length, 'requests')
+      setResults(finished)
+    } catch (err) {
+      log.error('Benchmark failed:', err)
+    } finally {
+      setRunning(false)
+      abortRef.current = null
+    }
+  }
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      setQueriesText(await file.text())
+    } catch (err) {
+      log.error('Could not read query file:', err)
+    }
+  }
+
+  const exportResults = (format: 'csv' | 'json') => {
+    const name = `benchmark-${fileTimestamp()}.${format}`
+    if (format === 'csv') {
+      downloadFile(name, benchmarkToCsv(results), 'text/csv')
+    } else if (lastRun) {
+      downloadFile(name, benchmarkToJson(results, lastRun.config, lastRun.settings), 'application/json')
+    }
+  }
+
+  const summary = results.length > 0 ? summarizeBenchmark(results) : null
+
+  return (
+    <section className="mb-6 rounded-lg border border-gray-200 bg-white/70 p-4 text-xs text-gray-600" aria-label="Benchmark">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-semibold text-gray-700">Latency benchmark</h2>
+        <span className="text-gray-500">{describeRetrievalConfig(config)}</span>
+      </div>
+
+      <textarea
+        value={queriesText}
+        onChange={(e) => setQueriesText(e.target.value)}
+        placeholder={'One query per line, or a JSON array of strings\n# lines starting with # are ignored'}
+        rows={5}
+        disabled={running}
+        className="w-full rounded-md border border-input bg-background p-2 font-mono text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      />
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-2">
+        <label className={`${buttonClass} cursor-pointer`}>
+          Upload list
+          <input type="file" accept=".txt,.json,.csv,text/plain,application/json" onChange={handleUpload} className="hidden" />
+        </label>
+        <NumberField label="Concurrency" value={settings.concurrency} min={1} step={1} onChange={(concurrency) => setSettings({ ...settings, concurrency })} />
+        <NumberField label="Repetitions" value={settings.repetitions} min={1} step={1} onChange={(repetitions) => setSettings({ ...settings, repetitions })} />
+        <NumberField label="Delay (ms)" value={settings.delayMs} min={0} step={50} onChange={(delayMs) => setSettings({ ...settings, delayMs })} />
+        {running ? (
+          <button type="button" onClick={() => abortRef.current?.abort()} className={buttonClass}>
+            Stop
+          </button>
+        ) : (
+          <button type="button" onClick={start} disabled={queries.length === 0} className={buttonClass}>
+            Run {queries.length > 0 && `(${queries.length * settings.repetitions} requests)`}
+          </button>
+        )}
+      </div>
+
+      {progress && (
+        <p className="mt-2 tabular-nums" aria-live="polite">
+          {progress.completed} / {progress.total} requests{running ? '...' : ' done'}
+        </p>
+      )}
+
+      {summary && (
+        <div className="mt-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <p>
+              {summary.succeeded} succeeded, {summary.failed} failed
+            </p>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => exportResults('csv')} className={buttonClass}>
+                Export CSV
+              </button>
+              <button type="button" onClick={() => exportResults('json')} className={buttonClass}>
+                Export JSON
+              </button>
+            </div>
+          </div>
+          <div>
+            <h3 className="font-medium text-gray-700 mb-1">All requests</h3>
+            <LatencySummaryTable summary={summary.all} />
+          </div>
+          {lastRun && lastRun.settings.repetitions > 1 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <h3 className="font-medium text-gray-700 mb-1">First pass (cold)</h3>
+                <LatencySummaryTable summary={summary.firstPass} />
+              </div>
+              <div>
+                <h3 className="font-medium text-gray-700 mb-1">Later passes (warm)</h3>
+                <LatencySummaryTable summary={summary.warmPasses} />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
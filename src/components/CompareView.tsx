@@ -0,0 +1,127 @@
+import { useSyncExternalStore } from 'react'
+import { ArrowDown, ArrowUp, Minus } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { SearchStats } from '@/components/SearchStats'
+import { compareRankings, overlapCount, type RankedHit } from '@/lib/compare'
+import { describeRetrievalConfig, type RetrievalConfig } from '@/lib/retrieval'
+import { getIndexConfig, subscribeIndexConfig } from '@/lib/indexConfig'
+import { hitTitle } from '@/lib/hits'
+import type { SearchResponse } from '@/lib/types'
+
+export interface CompareSide {
+  config: RetrievalConfig
+  response: SearchResponse
+}
+
+interface CompareViewProps {
+  left: CompareSide
+  right: CompareSide
+}
+
+// Arrow showing how many places a hit moved versus the other column
+function RankMovement({ ranked, otherLabel }: { ranked: RankedHit; otherLabel: string }) {
+  if (ranked.movement === null) {
+    return (
+      <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-700 font-normal">
+        Not in {otherLabel}
+      </Badge>
+    )
+  }
+  if (ranked.movement > 0) {
+    return (
+      <span className="inline-flex items-center text-xs font-medium text-green-600" title={`#${ranked.otherRank} in ${otherLabel}`}>
+        <ArrowUp size={14} />
+        {ranked.movement}
+      </span>
+    )
+  }
+  if (ranked.movement < 0) {
+    return (
+      <span className="inline-flex items-center text-xs font-medium text-red-600" title={`#${ranked.otherRank} in ${otherLabel}`}>
+        <ArrowDown size={14} />
+        {-ranked.movement}
+      </span>
+    )
+  }
+  return (
+    <span className="inline-flex items-center text-xs text-gray-400" title={`Same rank in ${otherLabel}`}>
+      <Minus size={14} />
+    </span>
+  )
+}
+
+function CompareColumn({
+  label,
+  otherLabel,
+  side,
+  ranked
+}: {
+  label: string
+  otherLabel: string
+  side: CompareSide
+  ranked: RankedHit[]
+}) {
+  const indexConfig = useSyncExternalStore(subscribeIndexConfig, getIndexConfig)
+  return (
+    <div className="min-w-0">
+      <h2 className="text-sm font-semibold text-gray-700 mb-2">
+        {label}: {describeRetrievalConfig(side.config)}
+      </h2>
+      <SearchStats
+        stats={{
+          took: side.response.took,
+          count: side.response.hits.length,
+          clientTime: side.response.clientTime,
+          config: side.config,
+          warnings: side.response.warnings,
+          cached: side.response.cached
+        }}
+      />
+      <div className="space-y-3">
+        {ranked.map((item) => (
+          <Card
+            key={item.hit._id}
+            className={
+              item.movement === null
+                ? 'border-l-4 border-l-amber-400'
+                : 'border-l-4 border-l-blue-500'
+            }
+          >
+            <CardHeader className="p-4 pb-2">
+              <div className="flex items-start justify-between gap-2">
+                <CardTitle className="text-base text-blue-600">
+                  <span className="text-gray-400 font-normal mr-1">#{item.rank}</span>
+                  {hitTitle(item.hit, indexConfig)}
+                </CardTitle>
+                <RankMovement ranked={item} otherLabel={otherLabel} />
+              </div>
+            </CardHeader>
+            <CardContent className="p-4 pt-0">
+              <p className="text-xs text-gray-500">Score: {item.hit._score.toFixed(4)}</p>
+            </CardContent>
+          </Card>
+        ))}
+        {ranked.length === 0 && <p className="text-sm text-gray-500">No results</p>}
+      </div>
+    </div>
+  )
+}
+
+// Two result lists side by side with per-_id rank movement
+export function CompareView({ left, right }: CompareViewProps) {
+  const ranked = compareRankings(left.response.hits, right.response.hits)
+  const overlap = overlapCount(left.response.hits, right.response.hits)
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">
+        {overlap} of {Math.max(left.response.hits.length, right.response.hits.length)} results appear in both lists
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <CompareColumn label="A" otherLabel="B" side={left} ranked={ranked.left} />
+        <CompareColumn label="B" otherLabel="A" side={right} ranked={ranked.right} />
+      </div>
+    </div>
+  )
+}
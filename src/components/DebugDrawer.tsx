@@ -0,0 +1,183 @@
+import { useState, useSyncExternalStore } from 'react'
+import { X } from 'lucide-react'
+import { LOG_LEVELS, createLogger, getLogLevel, setLogLevel, type LogLevel } from '@/lib/logger'
+import { clearTraces, getTraces, subscribeTraces, toCurl, type RequestTrace } from '@/lib/requestLog'
+import { PHASES } from '@/lib/latency'
+import { CACHE_CAPACITY, clearCache, getCacheState, setCacheSettings, subscribeCache } from '@/lib/searchCache'
+import { cn } from '@/lib/utils'
+
+const log = createLogger('Debug')
+
+interface DebugDrawerProps {
+  onClose: () => void
+}
+
+const buttonClass =
+  'px-2 py-1 text-xs font-medium rounded-md border border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+
+function CopyButton({ label, text }: { label: string; text: string }) {
+  const [status, setStatus] = useState<string | null>(null)
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setStatus('Copied')
+    } catch (err) {
+      // Denied permission, or no clipboard outside a secure context
+      log.error('Copy failed:', err)
+      setStatus('Copy failed')
+    }
+    setTimeout(() => setStatus(null), 1500)
+  }
+  return (
+    <button type="button" onClick={copy} className={buttonClass}>
+      {status ?? label}
+    </button>
+  )
+}
+
+function JsonBlock({ title, value }: { title: string; value: unknown }) {
+  const json = typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="font-medium text-gray-700">{title}</h4>
+        <CopyButton label="Copy JSON" text={json} />
+      </div>
+      <pre className="max-h-72 overflow-auto rounded bg-gray-900 p-2 text-[11px] leading-snug text-gray-100">{json}</pre>
+    </div>
+  )
+}
+
+function TraceDetails({ trace }: { trace: RequestTrace }) {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono">
+          {trace.method} {trace.url}
+        </span>
+        <span className="flex-1" />
+        <CopyButton label="Copy as curl" text={toCurl(trace)} />
+      </div>
+
+      {trace.error && <p className="text-red-700">{trace.error}</p>}
+
+      {trace.clientTime !== undefined && (
+        <table className="tabular-nums">
+          <tbody>
+            <tr>
+              <td className="pr-4">Client</td>
+              <td className="text-right">{trace.clientTime.toFixed(1)}ms</td>
+            </tr>
+            {trace.took?.total !== undefined && (
+              <tr>
+                <td className="pr-4">Server total</td>
+                <td className="text-right">{(trace.took.total * 1000).toFixed(1)}ms</td>
+              </tr>
+            )}
+            {PHASES.filter((phase) => trace.took?.[phase.key] !== undefined).map((phase) => (
+              <tr key={phase.key}>
+                <td className="pr-4">{phase.label}</td>
+                <td className="text-right">{((trace.took?.[phase.key] ?? 0) * 1000).toFixed(1)}ms</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <JsonBlock title="Request" value={trace.body} />
+      {trace.response !== undefined && <JsonBlock title="Response" value={trace.response} />}
+    </div>
+  )
+}
+
+// Side drawer listing recent search requests with their raw JSON and timings
+export function DebugDrawer({ onClose }: DebugDrawerProps) {
+  const traces = useSyncExternalStore(subscribeTraces, getTraces)
+  const cache = useSyncExternalStore(subscribeCache, getCacheState)
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [level, setLevel] = useState<LogLevel>(getLogLevel)
+  const selected = traces.find((trace) => trace.id === selectedId) ?? traces[0]
+
+  const changeLevel = (next: LogLevel) => {
+    setLogLevel(next)
+    setLevel(next)
+  }
+
+  return (
+    <aside
+      className="fixed inset-y-0 right-0 z-40 flex w-full max-w-xl flex-col border-l border-gray-200 bg-white text-xs text-gray-600 shadow-2xl"
+      aria-label="Debug"
+    >
+      <div className="flex items-center gap-3 border-b border-gray-200 p-3">
+        <h2 className="text-sm font-semibold text-gray-700">Debug</h2>
+        <label className="flex items-center gap-1">
+          Console log level
+          <select
+            value={level}
+            onChange={(e) => changeLevel(e.target.value as LogLevel)}
+            className="rounded border border-gray-200 bg-white px-1 py-0.5"
+          >
+            {LOG_LEVELS.map((l) => (
+              <option key={l} value={l}>
+                {l}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="flex-1" />
+        <button type="button" onClick={clearTraces} className={buttonClass}>
+          Clear
+        </button>
+        <button type="button" onClick={onClose} aria-label="Close debug drawer" className="rounded p-1 hover:bg-gray-100">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3 border-b border-gray-200 px-3 py-2">
+        <span>
+          Cache: {cache.size} of {CACHE_CAPACITY} responses
+          {cache.settings.bypass && ', bypassed'}
+        </span>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={cache.settings.persist}
+            onChange={(e) => setCacheSettings({ persist: e.target.checked })}
+          />
+          Keep in sessionStorage
+        </label>
+        <span className="flex-1" />
+        <button type="button" onClick={clearCache} disabled={cache.size === 0} className={cn(buttonClass, 'disabled:opacity-50')}>
+          Clear cache
+        </button>
+      </div>
+
+      {traces.length === 0 ? (
+        <p className="p-4">No requests yet. Run a search to see its request and response here.</p>
+      ) : (
+        <div className="flex min-h-0 flex-1">
+          <ul className="w-40 shrink-0 overflow-y-auto border-r border-gray-200">
+            {traces.map((trace) => (
+              <li key={trace.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(trace.id)}
+                  className={cn(
+                    'w-full px-3 py-2 text-left hover:bg-gray-50',
+                    trace.id === selected?.id && 'bg-blue-50'
+                  )}
+                >
+                  <span className={cn('block font-medium', trace.error ? 'text-red-700' : 'text-gray-700')}>
+                    #{trace.id} {trace.error ? 'failed' : trace.status ?? 'pending'}
+                  </span>
+                  <span className="block text-gray-400">{new Date(trace.timestamp).toLocaleTimeString()}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="min-w-0 flex-1 overflow-y-auto p-3">{selected && <TraceDetails trace={selected} />}</div>
+        </div>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,53 @@
+import type { ApiError } from '@/lib/apiClient'
+
+interface ErrorBannerProps {
+  error: ApiError
+}
+
+function errorTitle(error: ApiError): string {
+  switch (error.kind) {
+    case 'network':
+      return 'Could not reach the search backend'
+    case 'timeout':
+      return 'The search backend did not respond in time'
+    case 'http':
+      return error.status >= 500
+        ? `The search backend failed (HTTP ${error.status})`
+        : `The search backend rejected the request (HTTP ${error.status})`
+    case 'parse':
+      return 'The search backend returned malformed JSON'
+    case 'aborted':
+      return 'The request was cancelled'
+  }
+}
+
+const retried = (error: { attempts?: number }) => (error.attempts ?? 1) > 1
+
+function errorHint(error: ApiError): string | null {
+  switch (error.kind) {
+    case 'network':
+      return `Check that Nixiesearch is running at ${error.url || 'the configured URL'} and allows requests from this origin.`
+    case 'timeout':
+      return `No response within ${(error.timeoutMs / 1000).toFixed(1)}s${retried(error) ? ', even after retrying' : ''}. A cold-starting Lambda can take a while, so try again.`
+    case 'http':
+      return retried(error) ? 'The request was retried before giving up.' : null
+    case 'parse':
+      return error.message
+    case 'aborted':
+      return null
+  }
+}
+
+// Error banner with a specific message per API error kind
+export function ErrorBanner({ error }: ErrorBannerProps) {
+  const hint = errorHint(error)
+  return (
+    <div role="alert" className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-red-800">
+      <p className="font-medium">{errorTitle(error)}</p>
+      {error.kind === 'http' && error.serverMessage && (
+        <pre className="mt-2 whitespace-pre-wrap break-words text-sm font-mono text-red-700">{error.serverMessage}</pre>
+      )}
+      {hint && <p className="mt-1 text-sm text-red-700">{hint}</p>}
+    </div>
+  )
+}
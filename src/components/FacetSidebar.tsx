@@ -0,0 +1,60 @@
+import {
+  filterFromBucket,
+  formatFilter,
+  rangeLabel,
+  type ActiveFilter,
+  type AggregationResult,
+  type FacetDefinition,
+  type RangeBucket,
+  type TermBucket
+} from '@/lib/facets'
+
+interface FacetSidebarProps {
+  facets: FacetDefinition[]
+  aggregations: Record<string, AggregationResult>
+  activeFilters: ActiveFilter[]
+  onToggle: (filter: ActiveFilter) => void
+}
+
+function bucketLabel(facet: FacetDefinition, bucket: TermBucket | RangeBucket): string {
+  return facet.type === 'term' ? (bucket as TermBucket).term : rangeLabel(bucket as RangeBucket)
+}
+
+// Facet buckets with counts; checking a bucket adds it as a filter
+export function FacetSidebar({ facets, aggregations, activeFilters, onToggle }: FacetSidebarProps) {
+  const active = new Set(activeFilters.map(formatFilter))
+
+  return (
+    <aside className="space-y-6" aria-label="Filters">
+      {facets.map((facet) => {
+        const buckets = aggregations[facet.name]?.buckets ?? []
+        return (
+          <div key={facet.name}>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">{facet.label}</h3>
+            {buckets.length === 0 && <p className="text-xs text-gray-400">No values</p>}
+            <ul className="space-y-1">
+              {buckets.map((bucket) => {
+                const filter = filterFromBucket(facet, bucket)
+                const key = formatFilter(filter)
+                return (
+                  <li key={key}>
+                    <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={active.has(key)}
+                        onChange={() => onToggle(filter)}
+                        className="rounded border-gray-300"
+                      />
+                      <span className="flex-1 truncate">{bucketLabel(facet, bucket)}</span>
+                      <span className="text-xs text-gray-400">{bucket.count}</span>
+                    </label>
+                  </li>
+                )
+              })}
+            </ul>
+          </div>
+        )
+      })}
+    </aside>
+  )
+}
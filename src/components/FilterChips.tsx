@@ -0,0 +1,32 @@
+import { X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { filterLabel, formatFilter, type ActiveFilter, type FacetDefinition } from '@/lib/facets'
+
+interface FilterChipsProps {
+  filters: ActiveFilter[]
+  facets: FacetDefinition[]
+  onRemove: (filter: ActiveFilter) => void
+}
+
+// Active filters as removable chips
+export function FilterChips({ filters, facets, onRemove }: FilterChipsProps) {
+  if (filters.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-4">
+      {filters.map((filter) => (
+        <Badge key={formatFilter(filter)} variant="secondary" className="gap-1 pr-1 font-normal">
+          {filterLabel(filter, facets)}
+          <button
+            type="button"
+            onClick={() => onRemove(filter)}
+            aria-label={`Remove filter ${filterLabel(filter, facets)}`}
+            className="rounded-full p-0.5 hover:bg-gray-300"
+          >
+            <X size={12} />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { GRADES, GRADE_LABELS, type Grade } from '@/lib/judgments'
+import { cn } from '@/lib/utils'
+
+interface GradeSelectorProps {
+  grade: Grade | undefined
+  // null clears the judgment
+  onChange: (grade: Grade | null) => void
+}
+
+const GRADE_COLORS: Record<Grade, string> = {
+  0: 'bg-gray-500 border-gray-500',
+  1: 'bg-amber-500 border-amber-500',
+  2: 'bg-blue-500 border-blue-500',
+  3: 'bg-green-600 border-green-600'
+}
+
+// 0-3 relevance grade buttons; clicking the active grade clears it
+export function GradeSelector({ grade, onChange }: GradeSelectorProps) {
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-500" role="group" aria-label="Relevance grade">
+      <span className="mr-1">Relevance:</span>
+      {GRADES.map((g) => (
+        <button
+          key={g}
+          type="button"
+          title={GRADE_LABELS[g]}
+          aria-pressed={grade === g}
+          onClick={() => onChange(grade === g ? null : g)}
+          className={cn(
+            'h-6 w-6 rounded border font-medium transition-colors',
+            grade === g ? `${GRADE_COLORS[g]} text-white` : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-100'
+          )}
+        >
+          {g}
+        </button>
+      ))}
+    </div>
+  )
+}
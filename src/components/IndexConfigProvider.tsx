@@ -0,0 +1,18 @@
+import { useMemo, type ReactNode } from 'react'
+import { IndexConfigContext } from '@/hooks/useIndexConfig'
+import { DEFAULT_INDEX_CONFIG, sanitizeIndexConfig, type IndexConfig } from '@/lib/indexConfig'
+
+interface IndexConfigProviderProps {
+  // Backend, index and fields; missing keys take the defaults
+  config: Partial<IndexConfig>
+  children: ReactNode
+}
+
+// Points the search components and useSearch below it at an index
+export function IndexConfigProvider({ config, children }: IndexConfigProviderProps) {
+  // Keyed by content, so an inline config object doesn't re-run effects such
+  // as the suggestion fetch on every render
+  const key = JSON.stringify(config)
+  const value = useMemo(() => sanitizeIndexConfig(JSON.parse(key), DEFAULT_INDEX_CONFIG), [key])
+  return <IndexConfigContext value={value}>{children}</IndexConfigContext>
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { fetchIndexMapping } from '@/lib/api'
+import {
+  detectFields,
+  getIndexConfig,
+  resetIndexConfig,
+  sanitizeIndexConfig,
+  setIndexConfig,
+  type IndexConfig,
+  type MappingField
+} from '@/lib/indexConfig'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('Config')
+
+interface IndexSettingsPanelProps {
+  // Called once new settings are applied, e.g. to re-run the search
+  onChange: (config: IndexConfig) => void
+}
+
+const buttonClass =
+  'px-3 py-1 text-xs font-medium rounded-md border border-gray-200 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+
+function TextField({
+  label,
+  value,
+  onChange,
+  placeholder,
+  list
+}: {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  list?: string
+}) {
+  return (
+    <label className="flex flex-col gap-1">
+      {label}
+      <Input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        list={list}
+        className="h-8 text-xs"
+      />
+    </label>
+  )
+}
+
+const capabilities = (field: MappingField) =>
+  [field.lexical && 'lexical', field.semantic && 'semantic', field.suggest && 'suggest', field.stored && 'stored']
+    .filter(Boolean)
+    .join(', ')
+
+// Backend URL, index name and field roles, with detection from the index mapping
+export function IndexSettingsPanel({ onChange }: IndexSettingsPanelProps) {
+  const [draft, setDraft] = useState<IndexConfig>(getIndexConfig)
+  const [mapping, setMapping] = useState<MappingField[] | null>(null)
+  const [loadingMapping, setLoadingMapping] = useState(false)
+  const [mappingError, setMappingError] = useState<string | null>(null)
+
+  const update = (patch: Partial<IndexConfig>) => setDraft({ ...draft, ...patch })
+
+  const loadMapping = async () => {
+    setLoadingMapping(true)
+    setMappingError(null)
+    try {
+      const fields = await fetchIndexMapping(draft)
+      setMapping(fields)
+      const detected = detectFields(fields)
+      log.info('Detected fields:', detected)
+      setDraft({ ...draft, ...detected })
+    } catch (err) {
+      setMapping(null)
+      setMappingError(err instanceof Error ? err.message : 'Could not load the index mapping')
+    } finally {
+      setLoadingMapping(false)
+    }
+  }
+
+  const reset = () => {
+    resetIndexConfig()
+    const config = getIndexConfig()
+    setDraft(config)
+    setMapping(null)
+    onChange(config)
+  }
+
+  const save = () => {
+    const config = sanitizeIndexConfig(draft, getIndexConfig())
+    setIndexConfig(config)
+    setDraft(config)
+    onChange(config)
+  }
+
+  return (
+    <section className="mb-6 rounded-lg border border-gray-200 bg-white/70 p-4 text-xs text-gray-600" aria-label="Index settings">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-semibold text-gray-700">Index settings</h2>
+        <span>Saved in this browser</span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <TextField
+          label="Base URL"
+          value={draft.baseUrl}
+          onChange={(baseUrl) => update({ baseUrl })}
+          placeholder="Same origin (dev proxy)"
+        />
+        <TextField label="Index" value={draft.index} onChange={(index) => update({ index })} />
+        <TextField label="Title field" value={draft.titleField} onChange={(titleField) => update({ titleField })} list="index-fields" />
+        <TextField
+          label="Content field"
+          value={draft.contentField}
+          onChange={(contentField) => update({ contentField })}
+          list="index-fields"
+        />
+        <TextField
+          label="Semantic field"
+          value={draft.semanticField ?? ''}
+          onChange={(value) => update({ semanticField: value.trim() || null })}
+          placeholder="None (lexical only)"
+          list="index-fields"
+        />
+        <TextField
+          label="Suggest field"
+          value={draft.suggestField ?? ''}
+          onChange={(value) => update({ suggestField: value.trim() || null })}
+          placeholder="None (no autocomplete)"
+          list="index-fields"
+        />
+        <div className="sm:col-span-2">
+          <TextField
+            label="Stored fields to show (comma-separated)"
+            value={draft.storedFields.join(', ')}
+            onChange={(value) =>
+              update({
+                storedFields: value
+                  .split(',')
+                  .map((field) => field.trim())
+                  .filter(Boolean)
+              })
+            }
+          />
+        </div>
+      </div>
+      <datalist id="index-fields">
+        {mapping?.map((field) => <option key={field.name} value={field.name} />)}
+      </datalist>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button type="button" onClick={loadMapping} disabled={loadingMapping || !draft.index.trim()} className={buttonClass}>
+          {loadingMapping ? 'Loading...' : 'Detect fields from mapping'}
+        </button>
+        <span className="flex-1" />
+        <button type="button" onClick={reset} className={buttonClass}>
+          Reset
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={!draft.index.trim() || !draft.titleField.trim() || !draft.contentField.trim()}
+          className={buttonClass}
+        >
+          Save
+        </button>
+      </div>
+
+      {mappingError && <p className="mt-2 text-red-700">{mappingError}</p>}
+
+      {mapping && (
+        <table className="mt-4 w-full">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-medium py-1">Field</th>
+              <th className="font-medium py-1">Type</th>
+              <th className="font-medium py-1">Capabilities</th>
+            </tr>
+          </thead>
+          <tbody>
+            {mapping.map((field) => (
+              <tr key={field.name} className="border-t border-gray-100">
+                <td className="py-1 font-mono">{field.name}</td>
+                <td className="py-1">{field.type}</td>
+                <td className="py-1">{capabilities(field)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  )
+}
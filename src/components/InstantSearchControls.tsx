@@ -0,0 +1,27 @@
+import { NumberField } from '@/components/NumberField'
+import { sanitizeInstantSettings, type InstantSearchSettings } from '@/lib/instantSearch'
+
+interface InstantSearchControlsProps {
+  settings: InstantSearchSettings
+  onChange: (settings: InstantSearchSettings) => void
+}
+
+// Opt-in switch for search-as-you-type with its debounce and minimum length
+export function InstantSearchControls({ settings, onChange }: InstantSearchControlsProps) {
+  const update = (patch: Partial<InstantSearchSettings>) => onChange(sanitizeInstantSettings({ ...settings, ...patch }))
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+      <label className="flex items-center gap-2 text-xs font-medium text-gray-600">
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        Search as you type
+      </label>
+      {settings.enabled && (
+        <>
+          <NumberField label="Debounce (ms)" value={settings.debounceMs} min={0} step={50} onChange={(debounceMs) => update({ debounceMs })} />
+          <NumberField label="Min length" value={settings.minLength} min={1} step={1} onChange={(minLength) => update({ minLength })} />
+        </>
+      )}
+    </div>
+  )
+}
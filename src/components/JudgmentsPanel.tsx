@@ -0,0 +1,163 @@
+import { useState } from 'react'
+import { NumberField } from '@/components/NumberField'
+import { downloadFile, fileTimestamp } from '@/lib/download'
+import {
+  countJudgments,
+  judgmentsToJson,
+  judgmentsToQrels,
+  mergeJudgments,
+  parseJudgmentsFile,
+  type Judgments
+} from '@/lib/judgments'
+import { evaluate, searchRanking, type EvaluationResult } from '@/lib/metrics'
+import { describeRetrievalConfig, type RetrievalConfig } from '@/lib/retrieval'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('Judgments')
+
+interface JudgmentsPanelProps {
+  judgments: Judgments
+  onChange: (judgments: Judgments) => void
+  // Retrieval config the judged queries are evaluated with
+  config: RetrievalConfig
+}
+
+const buttonClass =
+  'px-3 py-1 text-xs font-medium rounded-md border border-gray-200 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+
+const format = (value: number) => value.toFixed(3)
+
+// Import/export of judgments and nDCG/MRR/precision for the current config
+export function JudgmentsPanel({ judgments, onChange, config }: JudgmentsPanelProps) {
+  const [k, setK] = useState(10)
+  const [evaluating, setEvaluating] = useState(false)
+  const [result, setResult] = useState<{ config: RetrievalConfig; evaluation: EvaluationResult } | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [evaluationError, setEvaluationError] = useState<string | null>(null)
+  const counts = countJudgments(judgments)
+
+  const runEvaluation = async () => {
+    log.info('Evaluating:', { queries: counts.queries, k, config })
+    setEvaluating(true)
+    setEvaluationError(null)
+    try {
+      const evaluation = await evaluate(judgments, searchRanking(config), k)
+      log.info('Evaluation:', evaluation)
+      setResult({ config, evaluation })
+    } catch (err) {
+      log.error('Evaluation failed:', err)
+      setEvaluationError(`Evaluation failed: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setEvaluating(false)
+    }
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const imported = parseJudgmentsFile(await file.text())
+      log.info('Imported:', countJudgments(imported))
+      onChange(mergeJudgments(judgments, imported))
+      setImportError(null)
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not read judgments file')
+    }
+  }
+
+  const clearAll = () => {
+    if (window.confirm(`Delete all ${counts.documents} judgments?`)) {
+      onChange({})
+      setResult(null)
+    }
+  }
+
+  return (
+    <section className="mb-6 rounded-lg border border-gray-200 bg-white/70 p-4 text-xs text-gray-600" aria-label="Relevance judgments">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-semibold text-gray-700">Relevance judgments</h2>
+        <span>
+          {counts.documents} graded {counts.documents === 1 ? 'document' : 'documents'} across {counts.queries}{' '}
+          {counts.queries === 1 ? 'query' : 'queries'}
+        </span>
+      </div>
+      <p className="mb-3">Grade results 0-3 on each card. Judgments are stored in this browser.</p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <NumberField label="k" value={k} min={1} step={1} onChange={(value) => setK(Math.floor(value))} />
+        <button type="button" onClick={runEvaluation} disabled={evaluating || counts.queries === 0} className={buttonClass}>
+          {evaluating ? 'Evaluating...' : 'Evaluate current config'}
+        </button>
+        <span className="flex-1" />
+        <button
+          type="button"
+          onClick={() => downloadFile(`qrels-${fileTimestamp()}.txt`, judgmentsToQrels(judgments), 'text/plain')}
+          disabled={counts.documents === 0}
+          className={buttonClass}
+        >
+          Export qrels
+        </button>
+        <button
+          type="button"
+          onClick={() => downloadFile(`judgments-${fileTimestamp()}.json`, judgmentsToJson(judgments), 'application/json')}
+          disabled={counts.documents === 0}
+          className={buttonClass}
+        >
+          Export JSON
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Import
+          <input type="file" accept=".txt,.qrels,.json,text/plain,application/json" onChange={handleImport} className="hidden" />
+        </label>
+        <button type="button" onClick={clearAll} disabled={counts.documents === 0} className={buttonClass}>
+          Clear all
+        </button>
+      </div>
+
+      {importError && <p className="mt-2 text-red-700">{importError}</p>}
+      {evaluationError && <p className="mt-2 text-red-700">{evaluationError}</p>}
+
+      {result && (
+        <div className="mt-4">
+          <p className="mb-2">
+            <span className="font-medium text-gray-700">{describeRetrievalConfig(result.config)}</span>
+            {' · '}nDCG@{result.evaluation.k} {format(result.evaluation.meanNdcg)}
+            {' · '}MRR {format(result.evaluation.mrr)}
+            {' · '}P@{result.evaluation.k} {format(result.evaluation.meanPrecision)}
+          </p>
+          <table className="w-full tabular-nums">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium py-1">Query</th>
+                <th className="font-medium py-1 text-right">nDCG@{result.evaluation.k}</th>
+                <th className="font-medium py-1 text-right">RR</th>
+                <th className="font-medium py-1 text-right">P@{result.evaluation.k}</th>
+                <th className="font-medium py-1 text-right">Unjudged</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.evaluation.queries.map((row) => (
+                <tr key={row.query} className="border-t border-gray-100">
+                  <td className="py-1 truncate max-w-xs">{row.query}</td>
+                  {row.error ? (
+                    <td colSpan={4} className="py-1 text-right text-red-700">
+                      {row.error}
+                    </td>
+                  ) : (
+                    <>
+                      <td className="py-1 text-right">{format(row.ndcg)}</td>
+                      <td className="py-1 text-right">{format(row.rr)}</td>
+                      <td className="py-1 text-right">{format(row.precision)}</td>
+                      <td className="py-1 text-right">{row.unjudged}</td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
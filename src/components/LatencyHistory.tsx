@@ -0,0 +1,50 @@
+import { LatencySummaryTable } from '@/components/LatencySummaryTable'
+import { isSuspectedColdStart, summarizeLatency, unaccountedMs, type LatencySample } from '@/lib/latency'
+
+interface LatencyHistoryProps {
+  samples: LatencySample[]
+  onClear: () => void
+}
+
+// Number of recent requests listed individually below the summary table
+const RECENT_LIMIT = 10
+
+// Collapsible per-session latency percentiles and recent requests
+export function LatencyHistory({ samples, onClear }: LatencyHistoryProps) {
+  if (samples.length === 0) return null
+
+  const summary = summarizeLatency(samples)
+  const recent = samples.slice(-RECENT_LIMIT).reverse()
+  const coldStarts = samples.filter((sample) => isSuspectedColdStart(sample, samples)).length
+
+  return (
+    <details className="mb-6 rounded-lg border border-gray-200 bg-white/70 p-3 text-xs text-gray-600">
+      <summary className="cursor-pointer font-medium text-gray-700">
+        Session latency ({samples.length} {samples.length === 1 ? 'request' : 'requests'}
+        {coldStarts > 0 && `, ${coldStarts} suspected cold ${coldStarts === 1 ? 'start' : 'starts'}`})
+      </summary>
+
+      <div className="mt-3">
+        <LatencySummaryTable summary={summary} />
+      </div>
+
+      <h4 className="font-medium text-gray-700 mt-4 mb-1">Recent requests</h4>
+      <ul className="space-y-1 tabular-nums">
+        {recent.map((sample, index) => (
+          <li key={`${sample.timestamp}-${index}`} className="flex items-center gap-2">
+            <span className="flex-1 truncate">{sample.query}</span>
+            <span>{sample.clientTime.toFixed(1)}ms client</span>
+            <span className="text-gray-400">{unaccountedMs(sample.took, sample.clientTime).toFixed(1)}ms overhead</span>
+            {isSuspectedColdStart(sample, samples) && (
+              <span className="rounded bg-amber-100 px-1.5 py-0.5 text-amber-700">cold start?</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <button type="button" onClick={onClear} className="mt-3 text-gray-500 underline hover:text-gray-700">
+        Clear history
+      </button>
+    </details>
+  )
+}
@@ -0,0 +1,27 @@
+import type { PhaseSummary } from '@/lib/latency'
+
+// p50/p95/max per latency phase
+export function LatencySummaryTable({ summary }: { summary: PhaseSummary[] }) {
+  return (
+    <table className="w-full tabular-nums">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="font-medium py-1">Phase</th>
+          <th className="font-medium py-1 text-right">p50</th>
+          <th className="font-medium py-1 text-right">p95</th>
+          <th className="font-medium py-1 text-right">max</th>
+        </tr>
+      </thead>
+      <tbody>
+        {summary.map((row) => (
+          <tr key={row.key} className="border-t border-gray-100">
+            <td className="py-1">{row.label}</td>
+            <td className="py-1 text-right">{row.p50.toFixed(1)}ms</td>
+            <td className="py-1 text-right">{row.p95.toFixed(1)}ms</td>
+            <td className="py-1 text-right">{row.max.toFixed(1)}ms</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
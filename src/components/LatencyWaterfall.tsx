@@ -0,0 +1,57 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { latencySegments, type SegmentKey } from '@/lib/latency'
+import type { TimingBreakdown } from '@/lib/types'
+
+const SEGMENT_COLORS: Record<SegmentKey, string> = {
+  open: 'bg-amber-400',
+  request: 'bg-purple-500',
+  search: 'bg-blue-500',
+  rerank: 'bg-teal-500',
+  agg: 'bg-pink-500',
+  fetch: 'bg-green-500',
+  unaccounted: 'bg-gray-300'
+}
+
+interface LatencyWaterfallProps {
+  took: TimingBreakdown
+  clientTime: number
+}
+
+// Stacked bar of server phases and unaccounted time, scaled to client time
+export function LatencyWaterfall({ took, clientTime }: LatencyWaterfallProps) {
+  const segments = latencySegments(took, clientTime)
+  const totalMs = Math.max(clientTime, segments.reduce((sum, s) => sum + s.ms, 0))
+  if (totalMs <= 0) return null
+
+  return (
+    <div className="mt-2">
+      <div className="flex h-3 w-full overflow-hidden rounded bg-gray-100" role="img" aria-label="Latency breakdown">
+        {segments
+          .filter((segment) => segment.ms > 0)
+          .map((segment) => (
+            <Tooltip key={segment.key}>
+              <TooltipTrigger asChild>
+                <div
+                  className={`${SEGMENT_COLORS[segment.key]} h-full cursor-help hover:opacity-80`}
+                  style={{ width: `${(segment.ms / totalMs) * 100}%` }}
+                />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>
+                  {segment.label}: {segment.ms.toFixed(1)}ms ({((segment.ms / totalMs) * 100).toFixed(0)}%)
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          ))}
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1 text-[11px] text-gray-500">
+        {segments.map((segment) => (
+          <span key={segment.key} className="inline-flex items-center gap-1">
+            <span className={`inline-block h-2 w-2 rounded-sm ${SEGMENT_COLORS[segment.key]}`} />
+            {segment.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
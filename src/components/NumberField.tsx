@@ -0,0 +1,35 @@
+import { Input } from '@/components/ui/input'
+
+// Compact labelled number input that ignores values below `min`
+export function NumberField({
+  label,
+  value,
+  min,
+  step,
+  onChange
+}: {
+  label: string
+  value: number
+  min: number
+  step: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-600">
+      {label}
+      <Input
+        type="number"
+        min={min}
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const parsed = Number(e.target.value)
+          if (e.target.value !== '' && Number.isFinite(parsed) && parsed >= min) {
+            onChange(parsed)
+          }
+        }}
+        className="h-8 w-20 text-xs"
+      />
+    </label>
+  )
+}
@@ -0,0 +1,153 @@
+import { useState, useSyncExternalStore } from 'react'
+import { SearchStats } from '@/components/SearchStats'
+import { ResultCard } from '@/components/ResultCard'
+import { ErrorBanner } from '@/components/ErrorBanner'
+import { fetchRawSearchResults } from '@/lib/api'
+import { toApiError, type ApiError } from '@/lib/apiClient'
+import { FACETS, type ActiveFilter } from '@/lib/facets'
+import { extractQueryText, parseRequestJson, validateSearchRequest } from '@/lib/queryDsl'
+import { buildSearchRequest, type RetrievalConfig } from '@/lib/retrieval'
+import type { RawSearchResponse } from '@/lib/types'
+import { cn } from '@/lib/utils'
+import { createLogger } from '@/lib/logger'
+import { getIndexConfig, indexUrl, subscribeIndexConfig } from '@/lib/indexConfig'
+
+const log = createLogger('Playground')
+
+interface QueryPlaygroundProps {
+  // Current search, used to pre-fill the editor
+  query: string
+  config: RetrievalConfig
+  filters: ActiveFilter[]
+}
+
+const buttonClass =
+  'px-3 py-1 text-xs font-medium rounded-md border border-gray-200 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+
+// The body fetchSearchResults would send for the current search
+function currentRequest({ query, config, filters }: QueryPlaygroundProps): string {
+  return JSON.stringify(buildSearchRequest(query || 'example query', config, { filters, facets: FACETS }), null, 2)
+}
+
+// JSON editor for sending hand-written query DSL to the search endpoint
+export function QueryPlayground(props: QueryPlaygroundProps) {
+  const indexConfig = useSyncExternalStore(subscribeIndexConfig, getIndexConfig)
+  const [text, setText] = useState(() => currentRequest(props))
+  const [running, setRunning] = useState(false)
+  const [result, setResult] = useState<{ query: string; response: RawSearchResponse } | null>(null)
+  const [error, setError] = useState<ApiError | null>(null)
+
+  const parsed = parseRequestJson(text)
+  const issues = parsed.ok ? validateSearchRequest(parsed.body) : []
+  const canRun = parsed.ok && !issues.some((issue) => issue.severity === 'error') && !running
+
+  const run = async () => {
+    if (!parsed.ok || !canRun) return
+    setRunning(true)
+    setError(null)
+    try {
+      const response = await fetchRawSearchResults(parsed.body)
+      setResult({ query: extractQueryText(parsed.body), response })
+    } catch (err) {
+      log.error('Playground request failed:', err)
+      setError(toApiError(err))
+      setResult(null)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const format = () => {
+    if (parsed.ok) setText(JSON.stringify(parsed.body, null, 2))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault()
+      run()
+    }
+  }
+
+  return (
+    <section className="mb-6 rounded-lg border border-gray-200 bg-white/70 p-4 text-xs text-gray-600" aria-label="Query playground">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-semibold text-gray-700">Query playground</h2>
+        <span>POST {indexUrl(indexConfig, 'search')}</span>
+      </div>
+      <p className="mb-3">
+        Edit the request body and run it against the index. Supported query types: match, multi_match, match_all, bool,
+        dis_max, semantic, knn and rrf.
+      </p>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        rows={16}
+        aria-label="Search request JSON"
+        aria-invalid={!parsed.ok || issues.some((issue) => issue.severity === 'error')}
+        className="w-full rounded-md border border-gray-200 bg-white p-2 font-mono text-xs text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {(!parsed.ok || issues.length > 0) && (
+        <ul className="mt-2 space-y-1" aria-live="polite">
+          {!parsed.ok && <li className="text-red-700">{parsed.message}</li>}
+          {issues.map((issue) => (
+            <li
+              key={`${issue.path}:${issue.message}`}
+              className={issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}
+            >
+              <span className="font-mono">{issue.path}</span>: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button type="button" onClick={run} disabled={!canRun} className={buttonClass}>
+          {running ? 'Running...' : 'Run'}
+        </button>
+        <button type="button" onClick={format} disabled={!parsed.ok} className={buttonClass}>
+          Format
+        </button>
+        <button type="button" onClick={() => setText(currentRequest(props))} className={buttonClass}>
+          Reset to current search
+        </button>
+        <span className="text-gray-400">Ctrl+Enter to run</span>
+      </div>
+
+      {error && (
+        <div className="mt-4 text-sm">
+          <ErrorBanner error={error} />
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-4">
+          <SearchStats
+            stats={{
+              took: result.response.took,
+              count: result.response.hits.length,
+              clientTime: result.response.clientTime,
+              warnings: result.response.warnings
+            }}
+          />
+          <details className="mb-4">
+            <summary className="cursor-pointer font-medium text-gray-700">Raw response JSON</summary>
+            <pre className="mt-2 max-h-96 overflow-auto rounded bg-gray-900 p-2 text-[11px] leading-snug text-gray-100">
+              {JSON.stringify(result.response.raw, null, 2)}
+            </pre>
+          </details>
+          <div className={cn('space-y-4 text-base', running && 'opacity-60')}>
+            {result.response.hits.length === 0 ? (
+              <p>No results.</p>
+            ) : (
+              result.response.hits.map((hit) => <ResultCard key={hit._id} hit={hit} query={result.query} />)
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,88 @@
+import { useId, type ReactNode, type Ref } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Highlighted } from '@/components/Highlighted'
+import { ScoreBreakdown } from '@/components/ScoreBreakdown'
+import { useIndexConfig } from '@/hooks/useIndexConfig'
+import { highlightField } from '@/lib/highlight'
+import { cn } from '@/lib/utils'
+import { extraFields, hitContent, hitTitle } from '@/lib/hits'
+import type { ScoreExplanation } from '@/lib/scoreExplanation'
+import type { SearchHit } from '@/lib/types'
+
+interface ResultCardProps {
+  hit: SearchHit
+  // Query whose terms are highlighted in the title and snippet
+  query: string
+  // Opens the article detail view from the title
+  onOpen?: () => void
+  // Per-retriever ranks behind a hybrid score, shown under the score badge
+  explanation?: ScoreExplanation
+  // Keyboard-selected card in the results list, focused through the ref
+  active?: boolean
+  ref?: Ref<HTMLDivElement>
+  onFocus?: () => void
+  // Extra controls below the snippet, e.g. the grade selector
+  children?: ReactNode
+}
+
+// Title and snippet come from the configured fields; other stored fields are listed below.
+// The card is a focusable article labelled by its title.
+export function ResultCard({ hit, query, onOpen, explanation, active = false, ref, onFocus, children }: ResultCardProps) {
+  const indexConfig = useIndexConfig()
+  const titleId = useId()
+  const fields = extraFields(hit, indexConfig)
+  const title = (
+    <Highlighted segments={highlightField(hitTitle(hit, indexConfig), query, hit._highlight?.[indexConfig.titleField])} />
+  )
+  return (
+    <Card
+      ref={ref}
+      role="article"
+      aria-labelledby={titleId}
+      tabIndex={-1}
+      data-shortcut-target="card"
+      onFocus={onFocus}
+      className={cn(
+        'hover:shadow-lg transition-all duration-200 border-l-4 border-l-blue-500 focus:outline-none',
+        active && 'ring-2 ring-blue-400 ring-offset-2'
+      )}
+    >
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between">
+          <CardTitle id={titleId} role="heading" aria-level={3} className="text-xl text-blue-600 hover:text-blue-700">
+            {onOpen ? (
+              <button type="button" onClick={onOpen} className="text-left hover:underline">
+                {title}
+              </button>
+            ) : (
+              title
+            )}
+          </CardTitle>
+          <div className="ml-4 flex shrink-0 flex-col items-end">
+            <Badge variant="secondary">Score: {hit._score.toFixed(4)}</Badge>
+            {explanation && <ScoreBreakdown explanation={explanation} score={hit._score} />}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-gray-700 leading-relaxed">
+          <Highlighted segments={highlightField(hitContent(hit, indexConfig), query, hit._highlight?.[indexConfig.contentField], 500)} />
+        </p>
+        {fields.length > 0 && (
+          <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs text-gray-600">
+            {fields.map(([name, text]) => (
+              <div key={name} className="contents">
+                <dt className="font-medium text-gray-500">{name}</dt>
+                <dd className="truncate" title={text}>
+                  {text}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+        {children && <div className="mt-4">{children}</div>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react'
+import { downloadFile, fileTimestamp } from '@/lib/download'
+import { createLogger } from '@/lib/logger'
+import { EXPORT_FORMATS, serializeResults, type ExportFormat, type ResultExport } from '@/lib/resultExport'
+
+const log = createLogger('Export')
+
+const buttonClass =
+  'px-3 py-1 text-xs font-medium rounded-md border border-gray-200 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+
+interface ResultExportMenuProps {
+  // Built on demand, so snippets are only extracted when exporting
+  getExport: () => ResultExport
+}
+
+// Download or copy the current results as JSON, CSV or Markdown
+export function ResultExportMenu({ getExport }: ResultExportMenuProps) {
+  const [format, setFormat] = useState<ExportFormat>('markdown')
+  const [status, setStatus] = useState<string | null>(null)
+  const definition = EXPORT_FORMATS.find((f) => f.format === format)!
+
+  const download = () => {
+    downloadFile(`results-${fileTimestamp()}.${definition.extension}`, serializeResults(getExport(), format), definition.mimeType)
+  }
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(serializeResults(getExport(), format))
+      setStatus('Copied')
+    } catch (err) {
+      log.error('Copy failed:', err)
+      setStatus('Copy failed')
+    }
+    setTimeout(() => setStatus(null), 1500)
+  }
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+      <label className="flex items-center gap-1">
+        Export results as
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="rounded border border-gray-200 bg-white px-1 py-0.5"
+        >
+          {EXPORT_FORMATS.map((f) => (
+            <option key={f.format} value={f.format}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button type="button" onClick={download} className={buttonClass}>
+        Download
+      </button>
+      <button type="button" onClick={copy} className={buttonClass}>
+        {status ?? 'Copy'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+import type { ReactNode } from 'react'
+import { ResultCard } from '@/components/ResultCard'
+import { cn } from '@/lib/utils'
+import type { ScoreExplanation } from '@/lib/scoreExplanation'
+import type { SearchHit } from '@/lib/types'
+
+interface ResultListProps {
+  hits: SearchHit[]
+  // Query whose terms are highlighted on the cards
+  query: string
+  // Dims the results while newer ones load
+  busy?: boolean
+  hasMore?: boolean
+  loadingMore?: boolean
+  onLoadMore?: () => void
+  // Keyboard-selected card; cardRef receives the card elements for focusing
+  activeIndex?: number
+  onActiveIndexChange?: (index: number) => void
+  cardRef?: (index: number, element: HTMLDivElement | null) => void
+  // Opens a hit from its title
+  onOpen?: (hit: SearchHit) => void
+  // Per-retriever ranks behind a hit's hybrid score
+  explain?: (hit: SearchHit) => ScoreExplanation | undefined
+  // Extra controls on each card, e.g. a grade selector
+  renderControls?: (hit: SearchHit) => ReactNode
+}
+
+// Result cards in a labelled feed, with a "Load more" button for further pages
+export function ResultList({
+  hits,
+  query,
+  busy = false,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  activeIndex = -1,
+  onActiveIndexChange,
+  cardRef,
+  onOpen,
+  explain,
+  renderControls
+}: ResultListProps) {
+  return (
+    <div className="space-y-4">
+      <div
+        role="feed"
+        aria-label="Search results"
+        aria-busy={loadingMore || busy}
+        className={cn('space-y-4 transition-opacity', busy && 'opacity-60')}
+      >
+        {hits.map((hit, index) => (
+          <ResultCard
+            key={hit._id}
+            ref={cardRef && ((element) => cardRef(index, element))}
+            hit={hit}
+            query={query}
+            active={index === activeIndex}
+            onFocus={onActiveIndexChange && (() => onActiveIndexChange(index))}
+            onOpen={onOpen && (() => onOpen(hit))}
+            explanation={explain?.(hit)}
+          >
+            {renderControls?.(hit)}
+          </ResultCard>
+        ))}
+      </div>
+      {hasMore && onLoadMore && (
+        <div className="text-center pt-2">
+          <button
+            type="button"
+            onClick={onLoadMore}
+            disabled={loadingMore}
+            className="px-4 py-2 text-sm font-medium rounded-md border border-gray-200 bg-white text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
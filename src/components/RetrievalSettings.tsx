@@ -0,0 +1,52 @@
+import { NumberField } from '@/components/NumberField'
+import { cn } from '@/lib/utils'
+import { RETRIEVAL_MODE_LABELS, type RetrievalConfig, type RetrievalMode } from '@/lib/retrieval'
+
+interface RetrievalSettingsProps {
+  // Optional prefix shown before the mode selector, e.g. the compare column name
+  label?: string
+  config: RetrievalConfig
+  onChange: (config: RetrievalConfig) => void
+}
+
+const MODES: RetrievalMode[] = ['lexical', 'semantic', 'hybrid']
+
+// Retrieval mode selector with RRF and lexical boost controls
+export function RetrievalSettings({ label, config, onChange }: RetrievalSettingsProps) {
+  const update = (patch: Partial<RetrievalConfig>) => onChange({ ...config, ...patch })
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+      {label && <span className="text-xs font-semibold text-gray-700 w-4">{label}</span>}
+      <div className="inline-flex rounded-md border border-gray-200 bg-white p-0.5" role="radiogroup" aria-label="Retrieval mode">
+        {MODES.map((mode) => (
+          <button
+            key={mode}
+            type="button"
+            role="radio"
+            aria-checked={config.mode === mode}
+            onClick={() => update({ mode })}
+            className={cn(
+              'px-3 py-1 text-xs font-medium rounded transition-colors',
+              config.mode === mode ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+            )}
+          >
+            {RETRIEVAL_MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+      {config.mode === 'hybrid' && (
+        <>
+          <NumberField label="Rank constant" value={config.rankConstant} min={1} step={1} onChange={(rankConstant) => update({ rankConstant })} />
+          <NumberField label="Window" value={config.windowSize} min={1} step={1} onChange={(windowSize) => update({ windowSize })} />
+        </>
+      )}
+      {config.mode !== 'semantic' && (
+        <>
+          <NumberField label="Title boost" value={config.titleBoost} min={0} step={0.5} onChange={(titleBoost) => update({ titleBoost })} />
+          <NumberField label="Content boost" value={config.contentBoost} min={0} step={0.5} onChange={(contentBoost) => update({ contentBoost })} />
+        </>
+      )}
+    </div>
+  )
+}
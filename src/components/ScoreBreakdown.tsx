@@ -0,0 +1,55 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import type { ScoreExplanation } from '@/lib/scoreExplanation'
+
+interface ScoreBreakdownProps {
+  explanation: ScoreExplanation
+  // The fused score returned by the backend, for comparison
+  score: number
+}
+
+// Rank of a hit in each retriever and its RRF contribution, with the
+// arithmetic in a tooltip
+export function ScoreBreakdown({ explanation, score }: ScoreBreakdownProps) {
+  const k = explanation.rankConstant
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <p className="mt-1 cursor-help text-right text-xs text-gray-500 underline decoration-dotted hover:decoration-solid">
+          {explanation.contributions.map((c) => `${c.label} ${c.rank === null ? '–' : `#${c.rank}`}`).join(' · ')}
+          {' → '}RRF {explanation.total.toFixed(4)}
+        </p>
+      </TooltipTrigger>
+      <TooltipContent className="text-xs">
+        <table className="tabular-nums">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="pr-3 font-medium">Retriever</th>
+              <th className="pr-3 text-right font-medium">Rank</th>
+              <th className="pr-3 text-right font-medium">Score</th>
+              <th className="text-right font-medium">1 / (k + rank)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {explanation.contributions.map((c) => (
+              <tr key={c.retriever}>
+                <td className="pr-3">{c.label}</td>
+                <td className="pr-3 text-right">{c.rank ?? 'not in window'}</td>
+                <td className="pr-3 text-right">{c.score === null ? '–' : c.score.toFixed(4)}</td>
+                <td className="text-right">
+                  {c.rank === null ? '0' : `1 / (${k} + ${c.rank}) = ${c.contribution.toFixed(4)}`}
+                </td>
+              </tr>
+            ))}
+            <tr className="border-t border-gray-200 font-medium">
+              <td className="pr-3 pt-1" colSpan={3}>
+                Sum
+              </td>
+              <td className="pt-1 text-right">{explanation.total.toFixed(4)}</td>
+            </tr>
+          </tbody>
+        </table>
+        <p className="mt-1 text-gray-500">Fused score from the backend: {score.toFixed(4)}</p>
+      </TooltipContent>
+    </Tooltip>
+  )
+}
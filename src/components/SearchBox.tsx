@@ -0,0 +1,194 @@
+import { useEffect, useId, useState, type Ref } from 'react'
+import { Loader2, Search } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { useIndexConfig } from '@/hooks/useIndexConfig'
+import { fetchSuggestions } from '@/lib/api'
+import { createLogger } from '@/lib/logger'
+import type { Suggestion } from '@/lib/types'
+
+const log = createLogger('SearchBox')
+
+// Renders a suggestion with the part matching the typed prefix in bold
+function HighlightedSuggestion({ text, query }: { text: string; query: string }) {
+  const prefix = query.trimStart()
+  if (!prefix || !text.toLowerCase().startsWith(prefix.toLowerCase())) {
+    return <span>{text}</span>
+  }
+  return (
+    <span>
+      <span className="font-semibold text-gray-900">{text.slice(0, prefix.length)}</span>
+      {text.slice(prefix.length)}
+    </span>
+  )
+}
+
+interface SearchBoxProps {
+  value: string
+  onChange: (value: string) => void
+  // Enter, or a picked suggestion after onChange with its text
+  onSubmit: (query: string) => void
+  // Autocomplete while typing; off e.g. once the query was searched
+  suggest?: boolean
+  // Spinner in the box, e.g. while instant results refresh
+  busy?: boolean
+  label?: string
+  placeholder?: string
+  // aria-keyshortcuts of the input, e.g. "/" when a global shortcut focuses it
+  keyShortcuts?: string
+  ref?: Ref<HTMLInputElement>
+}
+
+// Search input with a suggestions listbox navigated with the arrow keys
+export function SearchBox({
+  value,
+  onChange,
+  onSubmit,
+  suggest = true,
+  busy = false,
+  label = 'Search Wikipedia articles',
+  placeholder = 'Search Wikipedia articles...',
+  keyShortcuts,
+  ref
+}: SearchBoxProps) {
+  const indexConfig = useIndexConfig()
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+  const [showSuggestions, setShowSuggestions] = useState(false)
+  const [selectedIndex, setSelectedIndex] = useState(-1)
+  const listId = useId()
+  const optionId = (index: number) => `${listId}-option-${index}`
+
+  // Fetch suggestions with a 150ms debounce, aborting requests for stale input
+  useEffect(() => {
+    if (!suggest || !value.trim()) {
+      setSuggestions([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      try {
+        const items = await fetchSuggestions(value, controller.signal, indexConfig)
+        setSuggestions(items)
+        setSelectedIndex(-1)
+        setShowSuggestions(true)
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          log.warn('Suggest error:', err)
+          setSuggestions([])
+        }
+      }
+    }, 150)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [value, suggest, indexConfig])
+
+  const submit = (query: string) => {
+    setShowSuggestions(false)
+    setSuggestions([])
+    onSubmit(query)
+  }
+
+  // Pick a suggestion: fill the input and search for it
+  const selectSuggestion = (suggestion: Suggestion) => {
+    log.debug('Suggestion selected:', suggestion.text)
+    onChange(suggestion.text)
+    submit(suggestion.text)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showSuggestions && suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault()
+        setSelectedIndex((selectedIndex + 1) % suggestions.length)
+        return
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault()
+        setSelectedIndex(selectedIndex <= 0 ? suggestions.length - 1 : selectedIndex - 1)
+        return
+      }
+      if (e.key === 'Escape') {
+        // Handled here, so a global Escape shortcut doesn't also clear the query
+        e.preventDefault()
+        setShowSuggestions(false)
+        setSelectedIndex(-1)
+        return
+      }
+      if (e.key === 'Enter' && selectedIndex >= 0) {
+        selectSuggestion(suggestions[selectedIndex])
+        return
+      }
+    }
+
+    if (e.key === 'Enter') {
+      submit(value)
+    }
+  }
+
+  const expanded = showSuggestions && suggestions.length > 0
+
+  return (
+    <div className="relative">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+        <Input
+          ref={ref}
+          type="text"
+          aria-label={label}
+          aria-keyshortcuts={keyShortcuts}
+          data-shortcut-target="search"
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setShowSuggestions(suggestions.length > 0)}
+          onBlur={() => setShowSuggestions(false)}
+          role="combobox"
+          aria-expanded={expanded}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={expanded && selectedIndex >= 0 ? optionId(selectedIndex) : undefined}
+          className="pl-10 h-14 text-lg shadow-lg border-2 focus:border-blue-400"
+        />
+        {busy && (
+          <Loader2
+            aria-hidden="true"
+            className="absolute right-3 top-1/2 -translate-y-1/2 animate-spin text-blue-400"
+            size={20}
+          />
+        )}
+      </div>
+
+      {expanded && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-10 w-full mt-1 bg-white border border-gray-200 rounded-md shadow-lg overflow-hidden"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.text}
+              id={optionId(index)}
+              role="option"
+              aria-selected={index === selectedIndex}
+              // mousedown fires before the input blur hides the dropdown
+              onMouseDown={(e) => {
+                e.preventDefault()
+                selectSuggestion(suggestion)
+              }}
+              onMouseEnter={() => setSelectedIndex(index)}
+              className={`px-4 py-2 cursor-pointer text-gray-700 ${
+                index === selectedIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <HighlightedSuggestion text={suggestion.text} query={value} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { Pin, PinOff, X } from 'lucide-react'
+import { downloadFile, fileTimestamp } from '@/lib/download'
+import { createLogger } from '@/lib/logger'
+import {
+  formatAge,
+  historyToJson,
+  mergeHistory,
+  parseHistoryFile,
+  removeEntry,
+  sortHistory,
+  togglePinned,
+  type HistoryEntry,
+  type SearchHistory
+} from '@/lib/searchHistory'
+import { cn } from '@/lib/utils'
+
+const log = createLogger('History')
+
+const buttonClass =
+  'px-3 py-1 text-xs font-medium rounded-md border border-gray-200 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50'
+
+interface SearchHistoryProps {
+  history: SearchHistory
+  onRun: (query: string) => void
+  onChange: (history: SearchHistory) => void
+}
+
+function describeRun(entry: HistoryEntry): string {
+  if (entry.timestamp === 0) return 'not run yet'
+  const latency = entry.serverMs !== undefined ? `${entry.serverMs.toFixed(1)}ms server, ` : ''
+  return `${entry.hits} ${entry.hits === 1 ? 'hit' : 'hits'} · ${latency}${entry.clientMs.toFixed(0)}ms client · ${formatAge(entry.timestamp)}`
+}
+
+// Rows for `entries`; pin and delete apply to the full history
+function HistoryList({ entries, history, onRun, onChange }: SearchHistoryProps & { entries: HistoryEntry[] }) {
+  return (
+    <ul className="divide-y divide-gray-100">
+      {entries.map((entry) => (
+        <li key={entry.query} className="flex items-center gap-2 py-1.5">
+          <button
+            type="button"
+            onClick={() => onChange(togglePinned(history, entry.query))}
+            aria-label={entry.pinned ? `Unpin ${entry.query}` : `Pin ${entry.query}`}
+            aria-pressed={entry.pinned}
+            className={cn('rounded p-1 hover:bg-gray-100', entry.pinned ? 'text-purple-600' : 'text-gray-400')}
+          >
+            {entry.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+          </button>
+          <button
+            type="button"
+            onClick={() => onRun(entry.query)}
+            className="min-w-0 flex-1 truncate text-left text-sm text-blue-600 hover:underline"
+          >
+            {entry.query}
+          </button>
+          <span className="shrink-0 text-gray-400">{describeRun(entry)}</span>
+          <button
+            type="button"
+            onClick={() => onChange(removeEntry(history, entry.query))}
+            aria-label={`Delete ${entry.query} from history`}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+          >
+            <X size={14} />
+          </button>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+// Recent and pinned searches with export/import of the list as JSON
+export function SearchHistoryPanel({ history, onRun, onChange }: SearchHistoryProps) {
+  const [importError, setImportError] = useState<string | null>(null)
+  const pinned = history.filter((entry) => entry.pinned).length
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const imported = parseHistoryFile(await file.text())
+      log.info('Imported:', imported.length, 'searches')
+      onChange(mergeHistory(history, imported))
+      setImportError(null)
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not read history file')
+    }
+  }
+
+  const clearAll = () => {
+    if (window.confirm(`Delete all ${history.length} searches, including pinned ones?`)) {
+      onChange([])
+    }
+  }
+
+  return (
+    <section className="mb-6 rounded-lg border border-gray-200 bg-white/70 p-4 text-xs text-gray-600" aria-label="Search history">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-semibold text-gray-700">Search history</h2>
+        <span>
+          {history.length} {history.length === 1 ? 'search' : 'searches'}, {pinned} pinned
+        </span>
+      </div>
+      <p className="mb-3">Searches are stored in this browser. Pin the ones to keep; export them to share a demo query set.</p>
+
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => downloadFile(`search-history-${fileTimestamp()}.json`, historyToJson(history), 'application/json')}
+          disabled={history.length === 0}
+          className={buttonClass}
+        >
+          Export JSON
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Import
+          <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </label>
+        <span className="flex-1" />
+        <button type="button" onClick={clearAll} disabled={history.length === 0} className={buttonClass}>
+          Clear all
+        </button>
+      </div>
+
+      {importError && <p className="mb-2 text-red-700">{importError}</p>}
+
+      {history.length === 0 ? (
+        <p className="text-gray-500">No searches yet.</p>
+      ) : (
+        <HistoryList entries={sortHistory(history)} history={history} onRun={onRun} onChange={onChange} />
+      )}
+    </section>
+  )
+}
+
+// Number of unpinned searches listed on the start screen
+const RECENT_COUNT = 5
+
+// Pinned and latest searches for the initial "Start searching" state
+export function RecentSearches({ history, onRun, onChange }: SearchHistoryProps) {
+  if (history.length === 0) return null
+  let unpinned = 0
+  const shown = sortHistory(history).filter((entry) => entry.pinned || ++unpinned <= RECENT_COUNT)
+  return (
+    <div className="mx-auto mt-8 max-w-xl rounded-lg border border-gray-200 bg-white/70 p-4 text-left text-xs text-gray-600">
+      <h2 className="mb-1 text-sm font-semibold text-gray-700">Recent searches</h2>
+      <HistoryList entries={shown} history={history} onRun={onRun} onChange={onChange} />
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import { Badge } from '@/components/ui/badge'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { LatencyWaterfall } from '@/components/LatencyWaterfall'
+import { Timing, TimingStats } from '@/components/TimingStats'
+import { describeRetrievalConfig, type RetrievalConfig } from '@/lib/retrieval'
+import type { SearchStats as SearchStatsData } from '@/lib/types'
+
+interface SearchStatsProps {
+  // Without a config (hand-written playground requests) the badge reads "Custom request"
+  stats: Omit<SearchStatsData, 'config'> & { config?: RetrievalConfig }
+}
+
+// Result count, server/client latency and per-phase timing breakdown; cache
+// hits are marked so their timings aren't mistaken for a fresh request
+export function SearchStats({ stats }: SearchStatsProps) {
+  return (
+    <div className="mb-6">
+      <div className="text-sm text-gray-600 mb-2">
+        Found {stats.count} results {stats.cached ? 'from cache, originally in' : 'in'}{' '}
+        <Timing description="Total backend processing time as seen by Nixiesearch">
+          {stats.took.total ? (stats.took.total * 1000).toFixed(1) : '0.0'}ms server
+        </Timing>
+        ,{' '}
+        <Timing description="Total REST call latency, includes networking and lambda init">
+          {stats.clientTime.toFixed(1)}ms client
+        </Timing>
+        <Badge variant="outline" className="ml-2 font-normal text-gray-600">
+          {stats.config ? describeRetrievalConfig(stats.config) : 'Custom request'}
+        </Badge>
+        {stats.cached && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Badge variant="outline" className="ml-2 cursor-help border-sky-300 bg-sky-50 font-normal text-sky-700">
+                Cached
+              </Badge>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Answered by the client cache without calling the backend; timings are from the original request</p>
+            </TooltipContent>
+          </Tooltip>
+        )}
+      </div>
+      <TimingStats took={stats.took} />
+      <LatencyWaterfall took={stats.took} clientTime={stats.clientTime} />
+      {stats.warnings && stats.warnings.length > 0 && (
+        <div role="status" className="mt-3 rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+          <p className="font-medium">The response did not match the expected schema; defaults were used:</p>
+          <ul className="mt-1 list-disc pl-4">
+            {stats.warnings.map((warning) => (
+              <li key={warning} className="font-mono">
+                {warning}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
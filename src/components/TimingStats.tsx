@@ -0,0 +1,40 @@
+import type { ReactNode } from 'react'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { PHASES } from '@/lib/latency'
+import type { TimingBreakdown } from '@/lib/types'
+
+interface TimingProps {
+  // What the timing measures, shown in a tooltip
+  description: string
+  children: ReactNode
+}
+
+export function Timing({ description, children }: TimingProps) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="cursor-help underline decoration-dotted hover:decoration-solid">{children}</span>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>{description}</p>
+      </TooltipContent>
+    </Tooltip>
+  )
+}
+
+interface TimingStatsProps {
+  took: TimingBreakdown
+}
+
+// Server phases in execution order, skipping the ones the backend didn't report
+export function TimingStats({ took }: TimingStatsProps) {
+  return (
+    <div className="text-xs text-gray-500 flex flex-wrap gap-x-4 gap-y-1">
+      {PHASES.filter((phase) => took[phase.key] !== undefined).map((phase) => (
+        <Timing key={phase.key} description={phase.description}>
+          <span className="font-medium">{phase.label}:</span> {((took[phase.key] ?? 0) * 1000).toFixed(1)}ms
+        </Timing>
+      ))}
+    </div>
+  )
+}
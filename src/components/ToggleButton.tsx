@@ -0,0 +1,26 @@
+import { cn } from '@/lib/utils'
+
+interface ToggleButtonProps {
+  pressed: boolean
+  onClick: () => void
+  children: React.ReactNode
+}
+
+// Small on/off button for the toolbar under the search box
+export function ToggleButton({ pressed, onClick, children }: ToggleButtonProps) {
+  return (
+    <button
+      type="button"
+      aria-pressed={pressed}
+      onClick={onClick}
+      className={cn(
+        'px-3 py-1 text-xs font-medium rounded-md border transition-colors',
+        pressed
+          ? 'border-purple-600 bg-purple-600 text-white'
+          : 'border-gray-200 bg-white text-gray-600 hover:bg-gray-100'
+      )}
+    >
+      {children}
+    </button>
+  )
+}
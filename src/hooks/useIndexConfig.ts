@@ -0,0 +1,12 @@
+// Index config of the nearest IndexConfigProvider, so several embeds on one
+// page can target different indexes. Outside a provider this is the app-wide
+// config from config.json and the settings panel.
+import { createContext, useContext, useSyncExternalStore } from 'react'
+import { getIndexConfig, subscribeIndexConfig, type IndexConfig } from '@/lib/indexConfig'
+
+export const IndexConfigContext = createContext<IndexConfig | null>(null)
+
+export function useIndexConfig(): IndexConfig {
+  const appConfig = useSyncExternalStore(subscribeIndexConfig, getIndexConfig)
+  return useContext(IndexConfigContext) ?? appConfig
+}
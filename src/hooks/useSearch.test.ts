@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createElement, type ReactNode } from 'react'
+import { act, renderHook } from '@testing-library/react'
+import { IndexConfigProvider } from '@/components/IndexConfigProvider'
+import { useSearch } from '@/hooks/useSearch'
+import { setLogLevel } from '@/lib/logger'
+import { DEFAULT_RETRIEVAL_CONFIG } from '@/lib/retrieval'
+import { clearCache } from '@/lib/searchCache'
+import { createMockBackend } from '@/mock/mockBackend'
+
+// 15 cities, so a search for "city" has a second page
+const backend = createMockBackend({
+  documents: Array.from({ length: 15 }, (_, i) => ({
+    _id: `city-${i + 1}`,
+    title: `City ${i + 1}`,
+    content: `A city with ${i + 1} districts.`
+  }))
+})
+
+const lexical = { ...DEFAULT_RETRIEVAL_CONFIG, mode: 'lexical' as const }
+
+describe('useSearch', () => {
+  beforeEach(() => {
+    setLogLevel('silent')
+    clearCache()
+    backend.configure({ latencyMs: 0, failure: null })
+    vi.stubGlobal('fetch', backend.fetch)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('searches and appends further pages', async () => {
+    const onResponse = vi.fn()
+    const { result } = renderHook(() => useSearch({ onResponse }))
+
+    await act(() => result.current.search('city', { config: lexical }))
+    expect(result.current.results).toHaveLength(10)
+    expect(result.current.query).toBe('city')
+    expect(result.current.stats).toMatchObject({ count: 10, config: lexical })
+    expect(result.current.hasMore).toBe(true)
+
+    await act(() => result.current.loadMore())
+    expect(result.current.results).toHaveLength(15)
+    expect(new Set(result.current.results.map((hit) => hit._id)).size).toBe(15)
+    expect(result.current.page).toBe(2)
+    expect(result.current.hasMore).toBe(false)
+    expect(onResponse).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not load a page over a search in flight', async () => {
+    const { result } = renderHook(() => useSearch())
+    await act(() => result.current.search('city', { config: lexical }))
+
+    backend.configure({ latencyMs: 20 })
+    let refresh: Promise<unknown> = Promise.resolve()
+    act(() => {
+      refresh = result.current.search('districts', { config: lexical, instant: true })
+    })
+    expect(result.current.refreshing).toBe(true)
+
+    let page: unknown
+    await act(async () => {
+      page = await result.current.loadMore()
+    })
+    expect(page).toBeNull()
+
+    await act(() => refresh)
+    expect(result.current.refreshing).toBe(false)
+    expect(result.current.loading).toBe(false)
+    expect(result.current.query).toBe('districts')
+    expect(result.current.page).toBe(1)
+  })
+
+  it('searches the index of the nearest IndexConfigProvider', async () => {
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(IndexConfigProvider, { config: { index: 'movies' }, children })
+    const { result } = renderHook(() => useSearch(), { wrapper })
+
+    await act(() => result.current.search('city', { config: lexical }))
+    expect(result.current.error).toMatchObject({ kind: 'http', status: 404, serverMessage: "index 'movies' not found" })
+  })
+
+  it('keeps the error and resolves to null when the search fails', async () => {
+    backend.configure({ failure: { kind: 'http', status: 400, message: 'bad query' } })
+    const { result } = renderHook(() => useSearch())
+
+    let response: unknown
+    await act(async () => {
+      response = await result.current.search('city', { config: lexical })
+    })
+    expect(response).toBeNull()
+    expect(result.current.error).toMatchObject({ kind: 'http', status: 400, serverMessage: 'bad query' })
+    expect(result.current.loading).toBe(false)
+    expect(result.current.results).toEqual([])
+  })
+
+  it('clears the results on reset', async () => {
+    const { result } = renderHook(() => useSearch())
+    await act(() => result.current.search('city', { config: lexical }))
+    act(() => result.current.reset())
+    expect(result.current.results).toEqual([])
+    expect(result.current.stats).toBeNull()
+  })
+})
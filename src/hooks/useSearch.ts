@@ -0,0 +1,216 @@
+// Results, loading and error state of searches with one retrieval config.
+// Superseded requests are cancelled and further pages appended; URL syncing,
+// history and other side effects are left to the caller.
+import { useRef, useState } from 'react'
+import { fetchSearchResults } from '@/lib/api'
+import { isAbortError, toApiError, type ApiError } from '@/lib/apiClient'
+import type { ActiveFilter, AggregationResult, FacetDefinition } from '@/lib/facets'
+import { useIndexConfig } from '@/hooks/useIndexConfig'
+import type { IndexConfig } from '@/lib/indexConfig'
+import { createLogger } from '@/lib/logger'
+import { PAGE_SIZE, hasMorePages, mergeHits, pageOffset } from '@/lib/pagination'
+import { DEFAULT_RETRIEVAL_CONFIG, type RetrievalConfig } from '@/lib/retrieval'
+import type { SearchHit, SearchResponse, SearchStats } from '@/lib/types'
+
+const log = createLogger('Search')
+
+export interface SearchOptions {
+  config?: RetrievalConfig
+  filters?: ActiveFilter[]
+  // Pages fetched in one request, e.g. when restoring a shared URL
+  pages?: number
+  // Keeps the current results on screen, marked as refreshing, until the new
+  // ones arrive; for search as you type
+  instant?: boolean
+}
+
+export interface UseSearchOptions {
+  // Index to search; the nearest IndexConfigProvider's, or the app-wide config
+  indexConfig?: IndexConfig
+  // Facets to request aggregations for
+  facets?: FacetDefinition[]
+  // Every response, including further pages, e.g. for latency tracking
+  onResponse?: (query: string, response: SearchResponse) => void
+}
+
+export interface SearchState {
+  results: SearchHit[]
+  // A new search is running and there are no results to keep showing
+  loading: boolean
+  // An instant search is running while the previous results stay visible
+  refreshing: boolean
+  loadingMore: boolean
+  error: ApiError | null
+  stats: SearchStats | null
+  // Query and filters the results are for, which may differ from the input
+  query: string
+  filters: ActiveFilter[]
+  page: number
+  hasMore: boolean
+  aggregations: Record<string, AggregationResult> | null
+}
+
+export interface UseSearchResult extends SearchState {
+  // Resolves to the response, or null when the search failed or was superseded
+  search: (query: string, options?: SearchOptions) => Promise<SearchResponse | null>
+  // Appends the next page of the last search; null while a search is running
+  loadMore: () => Promise<SearchResponse | null>
+  // Cancels the request in flight and clears the results
+  reset: () => void
+}
+
+export function useSearch({ indexConfig, facets = [], onResponse }: UseSearchOptions = {}): UseSearchResult {
+  const contextConfig = useIndexConfig()
+  const index = indexConfig ?? contextConfig
+  const [results, setResults] = useState<SearchHit[]>([])
+  const [loading, setLoading] = useState(false)
+  const [refreshing, setRefreshing] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState<ApiError | null>(null)
+  const [stats, setStats] = useState<SearchStats | null>(null)
+  const [activeQuery, setActiveQuery] = useState('')
+  const [activeFilters, setActiveFilters] = useState<ActiveFilter[]>([])
+  const [page, setPage] = useState(1)
+  const [hasMore, setHasMore] = useState(false)
+  const [aggregations, setAggregations] = useState<Record<string, AggregationResult> | null>(null)
+
+  // Aborts the in-flight search or page load when a newer request starts, so a
+  // slow earlier response can't overwrite newer results
+  const controllerRef = useRef<AbortController | null>(null)
+  const startRequest = () => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+    return controller
+  }
+
+  const search = async (
+    query: string,
+    { config = DEFAULT_RETRIEVAL_CONFIG, filters = [], pages = 1, instant = false }: SearchOptions = {}
+  ) => {
+    if (!query.trim()) {
+      log.debug('Search ignored - empty query')
+      return null
+    }
+
+    log.info('Search:', query)
+    if (instant && results.length > 0) {
+      setRefreshing(true)
+    } else {
+      setLoading(true)
+    }
+    setError(null)
+    const controller = startRequest()
+
+    try {
+      const data = await fetchSearchResults(query, config, {
+        size: pages * PAGE_SIZE,
+        filters,
+        facets,
+        indexConfig: index,
+        signal: controller.signal
+      })
+      onResponse?.(query, data)
+      setResults(data.hits)
+      setAggregations(data.aggs ?? null)
+      setActiveQuery(query)
+      setActiveFilters(filters)
+      setPage(pages)
+      setHasMore(hasMorePages(data.hits, pages * PAGE_SIZE))
+      setStats({
+        took: data.took,
+        count: data.hits.length,
+        clientTime: data.clientTime,
+        config,
+        warnings: data.warnings,
+        cached: data.cached
+      })
+      return data
+    } catch (err) {
+      if (isAbortError(err)) return null
+      setError(toApiError(err))
+      log.error('Search error:', err)
+      return null
+    } finally {
+      if (controllerRef.current === controller) {
+        setLoading(false)
+        setRefreshing(false)
+      }
+    }
+  }
+
+  // Ignored while a search is running, as its results replace the current ones
+  const loadMore = async () => {
+    if (!stats || loadingMore || loading || refreshing) return null
+
+    const nextPage = page + 1
+    const { config } = stats
+    log.debug('Loading page:', nextPage)
+    setLoadingMore(true)
+    setError(null)
+    const controller = startRequest()
+
+    try {
+      const data = await fetchSearchResults(activeQuery, config, {
+        from: pageOffset(nextPage),
+        filters: activeFilters,
+        indexConfig: index,
+        signal: controller.signal
+      })
+      onResponse?.(activeQuery, data)
+      const merged = mergeHits(results, data.hits)
+      log.debug('Appended page:', {
+        page: nextPage,
+        pageHits: data.hits.length,
+        newHits: merged.length - results.length
+      })
+      setResults(merged)
+      setPage(nextPage)
+      setHasMore(hasMorePages(data.hits) && merged.length > results.length)
+      setStats({
+        took: data.took,
+        count: merged.length,
+        clientTime: data.clientTime,
+        config,
+        warnings: data.warnings,
+        cached: data.cached
+      })
+      return data
+    } catch (err) {
+      if (isAbortError(err)) return null
+      setError(toApiError(err))
+      log.error('Load more error:', err)
+      return null
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const reset = () => {
+    controllerRef.current?.abort()
+    setLoading(false)
+    setRefreshing(false)
+    setError(null)
+    setResults([])
+    setStats(null)
+    setHasMore(false)
+    setAggregations(null)
+  }
+
+  return {
+    results,
+    loading,
+    refreshing,
+    loadingMore,
+    error,
+    stats,
+    query: activeQuery,
+    filters: activeFilters,
+    page,
+    hasMore,
+    aggregations,
+    search,
+    loadMore,
+    reset
+  }
+}
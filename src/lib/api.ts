@@ -0,0 +1,183 @@
+// Nixiesearch REST API calls against the given index config, or the app-wide one
+import {
+  buildSearchRequest,
+  describeRetrievalConfig,
+  type RetrievalConfig,
+  type SearchRequestOptions
+} from '@/lib/retrieval'
+import type { RawSearchResponse, SearchHit, SearchResponse, Suggestion } from '@/lib/types'
+import { createLogger } from '@/lib/logger'
+import { completeTrace, startTrace } from '@/lib/requestLog'
+import {
+  getIndexConfig,
+  indexUrl,
+  parseMapping,
+  requestedFields,
+  type IndexConfig,
+  type MappingField
+} from '@/lib/indexConfig'
+import { normalizeSearchResponse, normalizeSuggestions } from '@/lib/responseSchema'
+import { describeApiError, isAbortError, requestJson, toApiError, type RequestOptions } from '@/lib/apiClient'
+import { cacheKey, dedupe, getCacheState, getCached, putCached } from '@/lib/searchCache'
+
+const log = createLogger('API')
+
+// Autocomplete is off when the index has no suggest field. Suggestions are
+// cheap to re-request on the next keystroke, so failures are not retried.
+export async function fetchSuggestions(
+  query: string,
+  signal: AbortSignal,
+  indexConfig: IndexConfig = getIndexConfig()
+): Promise<Suggestion[]> {
+  if (indexConfig.suggestField === null) return []
+
+  const requestBody = {
+    query,
+    fields: [indexConfig.suggestField],
+    count: 10
+  }
+
+  log.debug('Suggest request:', requestBody)
+
+  const { data } = await requestJson<unknown>(
+    indexUrl(indexConfig, 'suggest'),
+    { method: 'POST', body: requestBody },
+    { signal, retries: 0 }
+  )
+  const { suggestions, warnings } = normalizeSuggestions(data)
+
+  log.debug('Suggest response:', suggestions.length, 'suggestions')
+  if (warnings.length > 0) log.warn('Suggest response schema drift:', warnings)
+
+  return suggestions
+}
+
+export interface CacheOptions {
+  // false skips the cache and in-flight deduplication, e.g. when measuring latency
+  cache?: boolean
+}
+
+// Identical requests are answered from the client cache unless it is bypassed,
+// and concurrent identical requests share a single call
+export async function fetchSearchResults(
+  query: string,
+  config: RetrievalConfig,
+  options: SearchRequestOptions & RequestOptions & CacheOptions = {}
+): Promise<SearchResponse> {
+  const { signal, timeoutMs, retries, retryDelayMs, cache = true, ...searchOptions } = options
+  const requestBody = buildSearchRequest(query, config, searchOptions)
+  const apiUrl = indexUrl(searchOptions.indexConfig ?? getIndexConfig(), 'search')
+  const key = cacheKey(apiUrl, requestBody)
+  log.debug('Search request:', describeRetrievalConfig(config), requestBody)
+
+  if (!cache || getCacheState().settings.bypass) {
+    const { response } = await postSearch(apiUrl, requestBody, { signal, timeoutMs, retries, retryDelayMs })
+    if (cache) putCached(key, response)
+    return response
+  }
+
+  const cached = getCached(key)
+  if (cached) {
+    log.info('Search response from cache:', cached.hits.length, 'hits')
+    return { ...cached, cached: true }
+  }
+
+  const response = await dedupe(
+    key,
+    apiUrl,
+    async (sharedSignal) => {
+      const { response } = await postSearch(apiUrl, requestBody, { signal: sharedSignal, timeoutMs, retries, retryDelayMs })
+      putCached(key, response)
+      return response
+    },
+    signal
+  )
+  return response
+}
+
+// Sends a hand-written request body as-is, keeping the raw response for inspection
+export async function fetchRawSearchResults(requestBody: unknown, options: RequestOptions = {}): Promise<RawSearchResponse> {
+  log.debug('Raw search request:', requestBody)
+  const { response, raw } = await postSearch(indexUrl(getIndexConfig(), 'search'), requestBody, options)
+  return { ...response, raw }
+}
+
+// Stored fields of a single document, looked up with an _id filter. Null when
+// the index has no such document.
+export async function fetchDocument(
+  id: string,
+  { indexConfig = getIndexConfig(), ...options }: RequestOptions & { indexConfig?: IndexConfig } = {}
+): Promise<SearchHit | null> {
+  const requestBody = {
+    query: { match_all: {} },
+    filters: { include: { term: { _id: id } } },
+    fields: ['_id', ...requestedFields(indexConfig)],
+    size: 1
+  }
+  log.debug('Document request:', id)
+  const { response } = await postSearch(indexUrl(indexConfig, 'search'), requestBody, options)
+  // Checked again in case the backend ignored the filter
+  return response.hits.find((hit) => hit._id === id) ?? null
+}
+
+// The `from` of a search request body, 0 when it has none
+function requestOffset(requestBody: unknown): number {
+  const from = typeof requestBody === 'object' && requestBody !== null ? (requestBody as { from?: unknown }).from : undefined
+  return typeof from === 'number' ? from : 0
+}
+
+async function postSearch(
+  apiUrl: string,
+  requestBody: unknown,
+  options: RequestOptions
+): Promise<{ response: SearchResponse; raw: unknown }> {
+  const traceId = startTrace(apiUrl, 'POST', requestBody)
+
+  try {
+    const { data, status, clientTime, attempts } = await requestJson<unknown>(
+      apiUrl,
+      { method: 'POST', body: requestBody },
+      options
+    )
+    const { hits, took, aggs, warnings } = normalizeSearchResponse(data, requestOffset(requestBody))
+
+    log.info('Search response:', hits.length, 'hits', `${clientTime.toFixed(1)}ms client`, took)
+    if (attempts > 1) log.warn('Search succeeded after', attempts, 'attempts')
+    if (warnings.length > 0) log.warn('Search response schema drift:', warnings)
+    completeTrace(traceId, { status, response: data, took, clientTime })
+
+    return {
+      response: {
+        hits,
+        took,
+        clientTime,
+        ...(aggs && { aggs }),
+        ...(warnings.length > 0 && { warnings })
+      },
+      raw: data
+    }
+  } catch (err) {
+    const error = toApiError(err, apiUrl)
+    completeTrace(traceId, {
+      ...(error.kind === 'http' && { status: error.status, response: error.serverMessage }),
+      error: describeApiError(error)
+    })
+    if (isAbortError(err)) {
+      log.debug('Search cancelled')
+    } else {
+      log.error('Search failed:', describeApiError(error))
+    }
+    throw err
+  }
+}
+
+// Fields of an index, for detecting the title, content, semantic and suggest fields
+export async function fetchIndexMapping(config: IndexConfig): Promise<MappingField[]> {
+  const apiUrl = indexUrl(config, 'mapping')
+  log.debug('Mapping request:', apiUrl)
+
+  const { data } = await requestJson<unknown>(apiUrl)
+  const fields = parseMapping(data)
+  log.debug('Mapping fields:', fields)
+  return fields
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ApiRequestError, extractServerMessage, isAbortError, requestJson, toApiError } from '@/lib/apiClient'
+import { setLogLevel } from '@/lib/logger'
+
+const SEARCH_URL = '/v1/index/wiki/search'
+
+// Rejects only when the request's signal aborts, like a real fetch that never answers
+const hangingFetch = (_url: string, init: RequestInit) =>
+  new Promise<Response>((_, reject) => {
+    init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')))
+  })
+
+async function failure(promise: Promise<unknown>) {
+  try {
+    await promise
+  } catch (err) {
+    return toApiError(err)
+  }
+  throw new Error('expected the request to fail')
+}
+
+describe('requestJson', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    setLogLevel('silent')
+    fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('parses JSON and sends the body', async () => {
+    fetchMock.mockResolvedValue(new Response('{"hits":[]}'))
+    const response = await requestJson(SEARCH_URL, { method: 'POST', body: { size: 1 } })
+    expect(response).toMatchObject({ data: { hits: [] }, status: 200, attempts: 1 })
+    const [, init] = fetchMock.mock.calls[0]
+    expect(init).toMatchObject({ method: 'POST', body: '{"size":1}' })
+  })
+
+  it('retries 5xx responses with backoff, then succeeds', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('', { status: 503 }))
+      .mockResolvedValueOnce(new Response('', { status: 502 }))
+      .mockResolvedValueOnce(new Response('{}'))
+    const response = await requestJson(SEARCH_URL, {}, { retries: 2, retryDelayMs: 1 })
+    expect(response.attempts).toBe(3)
+  })
+
+  it('reports how many attempts a failed retryable request took', async () => {
+    fetchMock.mockImplementation(() => Promise.resolve(new Response('', { status: 503 })))
+    expect(await failure(requestJson(SEARCH_URL, {}, { retries: 2, retryDelayMs: 1 }))).toMatchObject({ status: 503, attempts: 3 })
+    expect(await failure(requestJson(SEARCH_URL, {}, { retries: 0 }))).toMatchObject({ status: 503, attempts: 1 })
+  })
+
+  it('reports the server message of a 4xx without retrying', async () => {
+    fetchMock.mockResolvedValue(new Response('{"error":"unknown field \'titel\'"}', { status: 400, statusText: 'Bad Request' }))
+    expect(await failure(requestJson(SEARCH_URL, {}, { retries: 2, retryDelayMs: 1 }))).toEqual({
+      kind: 'http',
+      url: SEARCH_URL,
+      status: 400,
+      statusText: 'Bad Request',
+      serverMessage: "unknown field 'titel'"
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('times out each attempt and retries timeouts', async () => {
+    fetchMock.mockImplementation(hangingFetch)
+    expect(await failure(requestJson(SEARCH_URL, {}, { timeoutMs: 5, retries: 1, retryDelayMs: 1 }))).toEqual({
+      kind: 'timeout',
+      url: SEARCH_URL,
+      timeoutMs: 5,
+      attempts: 2
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('distinguishes network errors and malformed JSON', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+    expect(await failure(requestJson(SEARCH_URL, {}, { retries: 2 }))).toEqual({ kind: 'network', url: SEARCH_URL, message: 'Failed to fetch' })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    fetchMock.mockResolvedValueOnce(new Response('<html>Bad gateway</html>'))
+    expect((await failure(requestJson(SEARCH_URL))).kind).toBe('parse')
+  })
+
+  it('stops when the caller aborts', async () => {
+    fetchMock.mockImplementation(hangingFetch)
+    const controller = new AbortController()
+    const request = requestJson(SEARCH_URL, {}, { signal: controller.signal, timeoutMs: 0 })
+    controller.abort()
+    const error = await request.catch((err) => err)
+    expect(error).toBeInstanceOf(ApiRequestError)
+    expect(isAbortError(error)).toBe(true)
+  })
+})
+
+describe('extractServerMessage', () => {
+  it('reads error fields from JSON and falls back to text', () => {
+    expect(extractServerMessage('{"message":"index not found"}')).toBe('index not found')
+    expect(extractServerMessage('{"error":{"message":"bad query"}}')).toBe('bad query')
+    expect(extractServerMessage(' Internal Server Error ')).toBe('Internal Server Error')
+    expect(extractServerMessage('')).toBeUndefined()
+  })
+})
@@ -0,0 +1,207 @@
+// JSON-over-HTTP client with timeouts, retries, cancellation and typed errors
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('API')
+
+export type ApiError =
+  // The request never got a response: backend down, DNS, CORS
+  | { kind: 'network'; url: string; message: string }
+  // No response within timeoutMs, typically a Lambda cold start
+  | { kind: 'timeout'; url: string; timeoutMs: number; attempts?: number }
+  // Non-2xx response, with the server's error message when it sent one
+  | { kind: 'http'; url: string; status: number; statusText: string; serverMessage?: string; attempts?: number }
+  // 2xx response whose body is not valid JSON
+  | { kind: 'parse'; url: string; message: string }
+  // Cancelled by the caller, e.g. superseded by a newer search
+  | { kind: 'aborted'; url: string }
+
+export class ApiRequestError extends Error {
+  readonly detail: ApiError
+
+  constructor(detail: ApiError) {
+    super(describeApiError(detail))
+    this.name = 'ApiRequestError'
+    this.detail = detail
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  // Per attempt; 0 disables the timeout
+  timeoutMs?: number
+  // Extra attempts after 5xx responses and timeouts
+  retries?: number
+  // Delay before the first retry, doubled for each further retry
+  retryDelayMs?: number
+}
+
+const configuredTimeout = Number(import.meta.env.VITE_API_TIMEOUT_MS)
+
+export const DEFAULT_REQUEST_OPTIONS: Required<Omit<RequestOptions, 'signal'>> = {
+  timeoutMs: Number.isFinite(configuredTimeout) && configuredTimeout >= 0 ? configuredTimeout : 15000,
+  retries: 2,
+  retryDelayMs: 500
+}
+
+export interface JsonResponse<T> {
+  data: T
+  status: number
+  // Duration of the final attempt in milliseconds
+  clientTime: number
+  attempts: number
+}
+
+export function describeApiError(error: ApiError): string {
+  switch (error.kind) {
+    case 'network':
+      return `Could not reach ${error.url}: ${error.message}`
+    case 'timeout':
+      return `No response from ${error.url} within ${(error.timeoutMs / 1000).toFixed(1)}s`
+    case 'http':
+      return `HTTP ${error.status}${error.statusText ? ` ${error.statusText}` : ''}${error.serverMessage ? `: ${error.serverMessage}` : ''}`
+    case 'parse':
+      return `Malformed JSON from ${error.url}: ${error.message}`
+    case 'aborted':
+      return 'Request cancelled'
+  }
+}
+
+// Any thrown value as an ApiError; unexpected errors count as network errors
+export function toApiError(err: unknown, url = ''): ApiError {
+  if (err instanceof ApiRequestError) return err.detail
+  return { kind: 'network', url, message: err instanceof Error ? err.message : String(err) }
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof ApiRequestError && err.detail.kind === 'aborted'
+}
+
+const isRetryable = (error: ApiError) => error.kind === 'timeout' || (error.kind === 'http' && error.status >= 500)
+
+// Records how many attempts a retryable failure took, so callers can tell a retried error apart
+function withAttempts(err: unknown, attempts: number): unknown {
+  if (!(err instanceof ApiRequestError) || !isRetryable(err.detail)) return err
+  const { detail } = err
+  return detail.kind === 'timeout' || detail.kind === 'http' ? new ApiRequestError({ ...detail, attempts }) : err
+}
+
+// Nixiesearch errors are JSON like {"error": "..."}; fall back to the raw text
+export function extractServerMessage(text: string): string | undefined {
+  const trimmed = text.trim()
+  if (!trimmed) return undefined
+  try {
+    const parsed = JSON.parse(trimmed)
+    const message = parsed?.error ?? parsed?.message
+    if (typeof message === 'string') return message
+    if (typeof message?.message === 'string') return message.message
+  } catch {
+    // not JSON
+  }
+  return trimmed.length > 500 ? `${trimmed.slice(0, 500)}...` : trimmed
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+async function attempt<T>(
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal | undefined,
+  timeoutMs: number
+): Promise<Omit<JsonResponse<T>, 'attempts'>> {
+  const controller = new AbortController()
+  let timedOut = false
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true
+          controller.abort()
+        }, timeoutMs)
+      : undefined
+  const forwardAbort = () => controller.abort()
+  signal?.addEventListener('abort', forwardAbort, { once: true })
+
+  const startTime = performance.now()
+  try {
+    let response: Response
+    let text: string
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal })
+      text = await response.text()
+    } catch (err) {
+      if (signal?.aborted) throw new ApiRequestError({ kind: 'aborted', url })
+      if (timedOut) throw new ApiRequestError({ kind: 'timeout', url, timeoutMs })
+      throw new ApiRequestError({ kind: 'network', url, message: err instanceof Error ? err.message : String(err) })
+    }
+    const clientTime = performance.now() - startTime
+
+    if (!response.ok) {
+      throw new ApiRequestError({
+        kind: 'http',
+        url,
+        status: response.status,
+        statusText: response.statusText,
+        serverMessage: extractServerMessage(text)
+      })
+    }
+
+    try {
+      return { data: JSON.parse(text) as T, status: response.status, clientTime }
+    } catch (err) {
+      throw new ApiRequestError({ kind: 'parse', url, message: err instanceof Error ? err.message : String(err) })
+    }
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', forwardAbort)
+  }
+}
+
+// Sends a request and parses the JSON response. Failures throw ApiRequestError;
+// 5xx responses and timeouts are retried with exponential backoff.
+export async function requestJson<T>(
+  url: string,
+  { method = 'GET', body }: { method?: string; body?: unknown } = {},
+  options: RequestOptions = {}
+): Promise<JsonResponse<T>> {
+  const { signal } = options
+  const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_OPTIONS.timeoutMs
+  const retries = options.retries ?? DEFAULT_REQUEST_OPTIONS.retries
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_REQUEST_OPTIONS.retryDelayMs
+  const init: RequestInit = {
+    method,
+    ...(body !== undefined && {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+  }
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    if (signal?.aborted) throw new ApiRequestError({ kind: 'aborted', url })
+    try {
+      const response = await attempt<T>(url, init, signal, timeoutMs)
+      return { ...response, attempts: attemptIndex + 1 }
+    } catch (err) {
+      const error = toApiError(err, url)
+      if (attemptIndex >= retries || !isRetryable(error)) throw withAttempts(err, attemptIndex + 1)
+      const wait = retryDelayMs * 2 ** attemptIndex
+      log.warn(`${describeApiError(error)}; retrying in ${wait}ms (${attemptIndex + 1}/${retries})`)
+      try {
+        await delay(wait, signal)
+      } catch {
+        throw new ApiRequestError({ kind: 'aborted', url })
+      }
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  benchmarkToCsv,
+  benchmarkToJson,
+  parseQueryList,
+  runBenchmark,
+  summarizeBenchmark,
+  type BenchmarkResult
+} from '@/lib/benchmark'
+import { DEFAULT_RETRIEVAL_CONFIG } from '@/lib/retrieval'
+import { setLogLevel } from '@/lib/logger'
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const searchBody = (query: string) => ({
+  hits: [{ _id: query, title: query, content: '', _score: 1 }],
+  took: { total: 0.01, search: 0.005, open: 0.001 }
+})
+
+describe('parseQueryList', () => {
+  it('reads one query per line, skipping blanks and comments', () => {
+    expect(parseQueryList('rome\n\n# warmup\n  paris  \r\nberlin\n')).toEqual(['rome', 'paris', 'berlin'])
+  })
+
+  it('accepts a JSON array of strings', () => {
+    expect(parseQueryList('["rome", " ", "paris", 3]')).toEqual(['rome', 'paris'])
+  })
+
+  it('treats invalid JSON as lines', () => {
+    expect(parseQueryList('[not json\nrome')).toEqual(['[not json', 'rome'])
+  })
+})
+
+describe('runBenchmark', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    setLogLevel('silent')
+    fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      const { query } = JSON.parse(init.body as string).query.rrf.retrieve[1].semantic
+      return jsonResponse(searchBody(query))
+    })
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('runs every query once per repetition, pass by pass', async () => {
+    const results = await runBenchmark(['a', 'b'], DEFAULT_RETRIEVAL_CONFIG, {
+      concurrency: 1,
+      repetitions: 2,
+      delayMs: 0
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+    expect(results.map((r) => `${r.repetition}:${r.query}`)).toEqual(['1:a', '1:b', '2:a', '2:b'])
+    expect(results.every((r) => r.ok && r.hitCount === 1 && r.took.total === 0.01)).toBe(true)
+  })
+
+  it('limits requests in flight to the concurrency setting', async () => {
+    let inFlight = 0
+    let peak = 0
+    fetchMock.mockImplementation(async () => {
+      inFlight++
+      peak = Math.max(peak, inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      inFlight--
+      return jsonResponse(searchBody('x'))
+    })
+
+    const results = await runBenchmark(['a', 'b', 'c', 'd', 'e'], DEFAULT_RETRIEVAL_CONFIG, {
+      concurrency: 2,
+      repetitions: 1,
+      delayMs: 0
+    })
+    expect(results).toHaveLength(5)
+    expect(peak).toBe(2)
+  })
+
+  it('records failed requests instead of throwing', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('boom', { status: 502 }))
+    const results = await runBenchmark(['a', 'b'], DEFAULT_RETRIEVAL_CONFIG, {
+      concurrency: 1,
+      repetitions: 1,
+      delayMs: 0
+    })
+    expect(results[0]).toMatchObject({ query: 'a', ok: false, hitCount: 0 })
+    expect(results[0].error).toBeTruthy()
+    expect(results[1]).toMatchObject({ query: 'b', ok: true })
+  })
+
+  it('stops issuing requests when aborted', async () => {
+    const controller = new AbortController()
+    const results = await runBenchmark(['a', 'b', 'c'], DEFAULT_RETRIEVAL_CONFIG, { concurrency: 1, repetitions: 1, delayMs: 0 }, {
+      signal: controller.signal,
+      onResult: (_, completed) => {
+        if (completed === 1) controller.abort()
+      }
+    })
+    expect(results).toHaveLength(1)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('cancels requests in flight when aborted, without recording them', async () => {
+    const controller = new AbortController()
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_, reject) => init.signal?.addEventListener('abort', () => reject(init.signal?.reason)))
+    )
+    const run = runBenchmark(['a', 'b'], DEFAULT_RETRIEVAL_CONFIG, { concurrency: 2, repetitions: 1, delayMs: 0 }, {
+      signal: controller.signal
+    })
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2))
+    controller.abort()
+    expect(await run).toEqual([])
+  })
+
+  it('reports progress for each request', async () => {
+    const onResult = vi.fn()
+    await runBenchmark(['a', 'b'], DEFAULT_RETRIEVAL_CONFIG, { concurrency: 1, repetitions: 1, delayMs: 0 }, { onResult })
+    expect(onResult.mock.calls.map(([, completed, total]) => [completed, total])).toEqual([
+      [1, 2],
+      [2, 2]
+    ])
+  })
+})
+
+describe('summaries and exports', () => {
+  const result = (overrides: Partial<BenchmarkResult>): BenchmarkResult => ({
+    query: 'rome',
+    repetition: 1,
+    startedAt: 0,
+    ok: true,
+    hitCount: 10,
+    took: { total: 0.02, search: 0.01 },
+    clientTime: 100,
+    ...overrides
+  })
+
+  it('splits the first pass from warm passes and counts failures', () => {
+    const summary = summarizeBenchmark([
+      result({ clientTime: 900 }),
+      result({ repetition: 2, clientTime: 50 }),
+      result({ repetition: 2, ok: false, error: 'timeout', took: {} })
+    ])
+    const client = (rows: typeof summary.all) => rows.find((row) => row.key === 'client')?.max
+    expect(summary.succeeded).toBe(2)
+    expect(summary.failed).toBe(1)
+    expect(client(summary.firstPass)).toBe(900)
+    expect(client(summary.warmPasses)).toBe(50)
+    expect(client(summary.all)).toBe(900)
+  })
+
+  it('exports one CSV row per request with phases in ms', () => {
+    const csv = benchmarkToCsv([result({ query: 'rome, italy' }), result({ ok: false, error: 'HTTP 502', took: {} })])
+    const [header, first, second] = csv.trim().split('\r\n')
+    expect(header).toBe(
+      'query,repetition,started_at_ms,ok,error,hits,client_ms,total_ms,open_ms,request_ms,search_ms,rerank_ms,agg_ms,fetch_ms,unaccounted_ms'
+    )
+    expect(first).toBe('"rome, italy",1,0.000,true,,10,100.000,20.000,,,10.000,,,,80.000')
+    expect(second).toBe('rome,1,0.000,false,HTTP 502,10,100.000,,,,,,,,')
+  })
+
+  it('exports JSON with the run config', () => {
+    const parsed = JSON.parse(
+      benchmarkToJson([result({})], DEFAULT_RETRIEVAL_CONFIG, { concurrency: 1, repetitions: 1, delayMs: 0 })
+    )
+    expect(parsed.config.mode).toBe('hybrid')
+    expect(parsed.results).toHaveLength(1)
+  })
+})
@@ -0,0 +1,190 @@
+// Latency benchmark: replay a query list through the search API
+import { fetchSearchResults } from '@/lib/api'
+import { toCsv } from '@/lib/csv'
+import { PHASES, summarizeLatency, unaccountedMs, type PhaseSummary } from '@/lib/latency'
+import type { RetrievalConfig } from '@/lib/retrieval'
+import type { TimingBreakdown } from '@/lib/types'
+
+export interface BenchmarkSettings {
+  // Requests in flight at once
+  concurrency: number
+  // Passes over the whole query list
+  repetitions: number
+  // Pause between consecutive requests of one worker
+  delayMs: number
+}
+
+export const DEFAULT_BENCHMARK_SETTINGS: BenchmarkSettings = {
+  concurrency: 1,
+  repetitions: 3,
+  delayMs: 0
+}
+
+export interface BenchmarkResult {
+  query: string
+  // 1-based pass over the query list; pass 1 is the coldest
+  repetition: number
+  // ms since the run started
+  startedAt: number
+  ok: boolean
+  error?: string
+  hitCount: number
+  took: TimingBreakdown
+  clientTime: number
+}
+
+export interface BenchmarkRunOptions {
+  signal?: AbortSignal
+  onResult?: (result: BenchmarkResult, completed: number, total: number) => void
+  // Search implementation, fetchSearchResults unless overridden
+  search?: typeof fetchSearchResults
+}
+
+// One query per line, blank lines and #comments skipped. A JSON array of
+// strings is accepted too.
+export function parseQueryList(text: string): string[] {
+  const trimmed = text.trim()
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed)
+      if (Array.isArray(parsed)) {
+        return parsed.filter((q): q is string => typeof q === 'string' && q.trim() !== '').map((q) => q.trim())
+      }
+    } catch {
+      // not JSON, fall through to line parsing
+    }
+  }
+  return trimmed
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '' && !line.startsWith('#'))
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Runs every query `repetitions` times, pass by pass, with up to `concurrency`
+// requests in flight. Failed requests are recorded, not thrown. Aborting cancels
+// the requests in flight and returns what completed before.
+export async function runBenchmark(
+  queries: string[],
+  config: RetrievalConfig,
+  settings: BenchmarkSettings,
+  { signal, onResult, search = fetchSearchResults }: BenchmarkRunOptions = {}
+): Promise<BenchmarkResult[]> {
+  const tasks = Array.from({ length: settings.repetitions }, (_, rep) =>
+    queries.map((query) => ({ query, repetition: rep + 1 }))
+  ).flat()
+  const results: BenchmarkResult[] = []
+  const runStart = performance.now()
+  let next = 0
+
+  const worker = async () => {
+    while (next < tasks.length && !signal?.aborted) {
+      const task = tasks[next++]
+      const startedAt = performance.now()
+      let result: BenchmarkResult
+      try {
+        // No retries or cache: either would hide the cold start being measured
+        const response = await search(task.query, config, { signal, retries: 0, cache: false })
+        result = {
+          ...task,
+          startedAt: startedAt - runStart,
+          ok: true,
+          hitCount: response.hits.length,
+          took: response.took,
+          clientTime: response.clientTime
+        }
+      } catch (err) {
+        result = {
+          ...task,
+          startedAt: startedAt - runStart,
+          ok: false,
+          error: err instanceof Error ? err.message : String(err),
+          hitCount: 0,
+          took: {},
+          clientTime: performance.now() - startedAt
+        }
+      }
+      if (signal?.aborted) break
+      results.push(result)
+      onResult?.(result, results.length, tasks.length)
+
+      if (settings.delayMs > 0 && next < tasks.length) {
+        await sleep(settings.delayMs, signal)
+      }
+    }
+  }
+
+  const workers = Math.max(1, Math.min(settings.concurrency, tasks.length))
+  await Promise.all(Array.from({ length: workers }, worker))
+  return results
+}
+
+export interface BenchmarkSummary {
+  succeeded: number
+  failed: number
+  all: PhaseSummary[]
+  // First pass over the query list, where cold starts land
+  firstPass: PhaseSummary[]
+  // Later passes, when the Lambda and index are warm
+  warmPasses: PhaseSummary[]
+}
+
+export function summarizeBenchmark(results: BenchmarkResult[]): BenchmarkSummary {
+  const ok = results.filter((r) => r.ok)
+  const samples = (rs: BenchmarkResult[]) =>
+    rs.map((r) => ({ timestamp: r.startedAt, query: r.query, took: r.took, clientTime: r.clientTime }))
+  return {
+    succeeded: ok.length,
+    failed: results.length - ok.length,
+    all: summarizeLatency(samples(ok)),
+    firstPass: summarizeLatency(samples(ok.filter((r) => r.repetition === 1))),
+    warmPasses: summarizeLatency(samples(ok.filter((r) => r.repetition > 1)))
+  }
+}
+
+const ms = (seconds: number | undefined) => (seconds === undefined ? undefined : (seconds * 1000).toFixed(3))
+
+export function benchmarkToCsv(results: BenchmarkResult[]): string {
+  const headers = [
+    'query',
+    'repetition',
+    'started_at_ms',
+    'ok',
+    'error',
+    'hits',
+    'client_ms',
+    'total_ms',
+    ...PHASES.map((phase) => `${phase.key}_ms`),
+    'unaccounted_ms'
+  ]
+  const rows = results.map((r) => [
+    r.query,
+    r.repetition,
+    r.startedAt.toFixed(3),
+    r.ok,
+    r.error,
+    r.hitCount,
+    r.clientTime.toFixed(3),
+    ms(r.took.total),
+    ...PHASES.map((phase) => ms(r.took[phase.key])),
+    r.ok ? unaccountedMs(r.took, r.clientTime).toFixed(3) : undefined
+  ])
+  return toCsv(headers, rows)
+}
+
+export function benchmarkToJson(results: BenchmarkResult[], config: RetrievalConfig, settings: BenchmarkSettings): string {
+  return JSON.stringify({ config, settings, results }, null, 2)
+}
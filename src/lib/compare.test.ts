@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { compareRankings, overlapCount } from '@/lib/compare'
+import type { SearchHit } from '@/lib/types'
+
+const hits = (...ids: string[]): SearchHit[] => ids.map((_id) => ({ _id, _score: 1 }))
+const summary = (ranked: ReturnType<typeof compareRankings>['left']) =>
+  ranked.map(({ hit, rank, otherRank, movement }) => ({ id: hit._id, rank, otherRank, movement }))
+
+describe('compareRankings', () => {
+  it('has no other rank or movement for a hit only on the left', () => {
+    const { left, right } = compareRankings(hits('a', 'b'), hits('b'))
+    expect(summary(left)[0]).toEqual({ id: 'a', rank: 1, otherRank: null, movement: null })
+    expect(right.map((r) => r.hit._id)).toEqual(['b'])
+  })
+
+  it('has no other rank or movement for a hit only on the right', () => {
+    const { left, right } = compareRankings(hits('a'), hits('a', 'c'))
+    expect(summary(right)[1]).toEqual({ id: 'c', rank: 2, otherRank: null, movement: null })
+    expect(left.map((r) => r.hit._id)).toEqual(['a'])
+  })
+
+  it('counts positions gained on each side for a moved hit', () => {
+    const { left, right } = compareRankings(hits('a', 'b', 'c'), hits('c', 'a', 'b'))
+    expect(summary(left)).toEqual([
+      { id: 'a', rank: 1, otherRank: 2, movement: 1 },
+      { id: 'b', rank: 2, otherRank: 3, movement: 1 },
+      { id: 'c', rank: 3, otherRank: 1, movement: -2 }
+    ])
+    expect(summary(right)[0]).toEqual({ id: 'c', rank: 1, otherRank: 3, movement: 2 })
+  })
+
+  it('has zero movement for a hit at the same rank', () => {
+    const { left } = compareRankings(hits('a', 'b'), hits('a', 'c'))
+    expect(left[0].movement).toBe(0)
+  })
+})
+
+describe('overlapCount', () => {
+  it('counts the hits both lists share, regardless of order', () => {
+    expect(overlapCount(hits('a', 'b', 'c'), hits('c', 'd', 'a'))).toBe(2)
+    expect(overlapCount(hits('a'), hits('b'))).toBe(0)
+    expect(overlapCount([], hits('a'))).toBe(0)
+  })
+
+  it('counts the overlap at k of the top k hits of each list', () => {
+    const left = hits('a', 'b', 'c', 'd', 'e')
+    const right = hits('b', 'x', 'a', 'e', 'y')
+    const overlapAt = (k: number) => overlapCount(left.slice(0, k), right.slice(0, k))
+    expect(overlapAt(1)).toBe(0)
+    expect(overlapAt(2)).toBe(1)
+    expect(overlapAt(3)).toBe(2)
+    expect(overlapAt(5)).toBe(3)
+  })
+})
@@ -0,0 +1,54 @@
+// Rank movement between two hit lists for the same query
+import { DEFAULT_RETRIEVAL_CONFIG, type RetrievalConfig } from '@/lib/retrieval'
+import type { SearchHit } from '@/lib/types'
+
+export interface RankedHit {
+  hit: SearchHit
+  // 1-based position in this list
+  rank: number
+  // 1-based position in the other list, or null if the hit only appears here
+  otherRank: number | null
+  // Positions gained relative to the other list (positive = ranked higher here)
+  movement: number | null
+}
+
+function rankById(hits: SearchHit[]): Map<string, number> {
+  return new Map(hits.map((hit, index) => [hit._id, index + 1]))
+}
+
+function rankAgainst(hits: SearchHit[], otherRanks: Map<string, number>): RankedHit[] {
+  return hits.map((hit, index) => {
+    const rank = index + 1
+    const otherRank = otherRanks.get(hit._id) ?? null
+    return {
+      hit,
+      rank,
+      otherRank,
+      movement: otherRank === null ? null : otherRank - rank
+    }
+  })
+}
+
+export function compareRankings(left: SearchHit[], right: SearchHit[]): { left: RankedHit[]; right: RankedHit[] } {
+  return {
+    left: rankAgainst(left, rankById(right)),
+    right: rankAgainst(right, rankById(left))
+  }
+}
+
+// Number of hits the two lists have in common
+export function overlapCount(left: SearchHit[], right: SearchHit[]): number {
+  const rightIds = new Set(right.map((hit) => hit._id))
+  return left.filter((hit) => rightIds.has(hit._id)).length
+}
+
+export interface CompareConfigs {
+  left: RetrievalConfig
+  right: RetrievalConfig
+}
+
+// By default compare the two retrievers that hybrid search fuses
+export const DEFAULT_COMPARE_CONFIGS: CompareConfigs = {
+  left: { ...DEFAULT_RETRIEVAL_CONFIG, mode: 'lexical' },
+  right: { ...DEFAULT_RETRIEVAL_CONFIG, mode: 'semantic' }
+}
@@ -0,0 +1,13 @@
+// Minimal RFC 4180 CSV serialization
+
+export type CsvValue = string | number | boolean | null | undefined
+
+function escapeCell(value: CsvValue): string {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n'
+}
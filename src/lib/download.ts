@@ -0,0 +1,15 @@
+// Browser file download and upload helpers
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Timestamp safe for file names, e.g. 2024-05-01T12-30-00
+export function fileTimestamp(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 19).replace(/:/g, '-')
+}
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  buildAggregations,
+  buildFilterClause,
+  formatFilter,
+  parseFacetConfig,
+  parseFilter,
+  type ActiveFilter,
+  type FacetDefinition
+} from '@/lib/facets'
+import { setLogLevel } from '@/lib/logger'
+
+const facets: FacetDefinition[] = [
+  { type: 'term', name: 'category', field: 'category', label: 'Category' },
+  { type: 'term', name: 'lang', field: 'language', label: 'Language', size: 5 },
+  { type: 'range', name: 'length', field: 'length', label: 'Length', ranges: [{ to: 1000 }, { from: 1000 }] }
+]
+
+const term = (facet: string, field: string, value: string): ActiveFilter => ({ type: 'term', facet, field, value })
+
+describe('parseFacetConfig', () => {
+  beforeEach(() => setLogLevel('silent'))
+
+  it('reads term and range facets, labelling them by name by default', () => {
+    const raw = JSON.stringify([
+      { type: 'term', name: 'category', field: 'category' },
+      { type: 'range', name: 'length', field: 'length', label: 'Length', ranges: [{ to: 1000 }] }
+    ])
+    expect(parseFacetConfig(raw)).toEqual([
+      { type: 'term', name: 'category', field: 'category', label: 'category' },
+      { type: 'range', name: 'length', field: 'length', label: 'Length', ranges: [{ to: 1000 }] }
+    ])
+  })
+
+  it('is empty when unset, not JSON or not an array', () => {
+    expect(parseFacetConfig(undefined)).toEqual([])
+    expect(parseFacetConfig('')).toEqual([])
+    expect(parseFacetConfig('[{"type":')).toEqual([])
+    expect(parseFacetConfig('{"type":"term","name":"a","field":"a"}')).toEqual([])
+  })
+
+  it('drops entries with an unknown type or missing name, field or ranges', () => {
+    const raw = JSON.stringify([
+      null,
+      { type: 'histogram', name: 'a', field: 'a' },
+      { type: 'term', field: 'b' },
+      { type: 'term', name: 'c' },
+      { type: 'range', name: 'd', field: 'd' },
+      { type: 'term', name: 'ok', field: 'ok' }
+    ])
+    expect(parseFacetConfig(raw).map((facet) => facet.name)).toEqual(['ok'])
+  })
+})
+
+describe('buildAggregations', () => {
+  it('requests term buckets with a default size and the configured ranges', () => {
+    expect(buildAggregations(facets)).toEqual({
+      category: { term: { field: 'category', size: 10 } },
+      lang: { term: { field: 'language', size: 5 } },
+      length: { range: { field: 'length', ranges: [{ to: 1000 }, { from: 1000 }] } }
+    })
+  })
+})
+
+describe('buildFilterClause', () => {
+  it('is undefined without filters', () => {
+    expect(buildFilterClause([])).toBeUndefined()
+  })
+
+  it('builds a term clause on the facet field', () => {
+    expect(buildFilterClause([term('lang', 'language', 'en')])).toEqual({ include: { term: { language: 'en' } } })
+  })
+
+  it('builds range clauses with inclusive from and exclusive to, leaving out open ends', () => {
+    expect(buildFilterClause([{ type: 'range', facet: 'length', field: 'length', from: 100, to: 1000 }])).toEqual({
+      include: { range: { length: { gte: 100, lt: 1000 } } }
+    })
+    expect(buildFilterClause([{ type: 'range', facet: 'length', field: 'length', from: 1000 }])).toEqual({
+      include: { range: { length: { gte: 1000 } } }
+    })
+  })
+
+  it('ors values of one facet and ands different facets', () => {
+    expect(
+      buildFilterClause([
+        term('category', 'category', 'History'),
+        { type: 'range', facet: 'length', field: 'length', to: 1000 },
+        term('category', 'category', 'Art')
+      ])
+    ).toEqual({
+      include: {
+        and: [
+          { or: [{ term: { category: 'History' } }, { term: { category: 'Art' } }] },
+          { range: { length: { lt: 1000 } } }
+        ]
+      }
+    })
+  })
+})
+
+describe('filter strings', () => {
+  it('round-trips term and range filters', () => {
+    const filters: ActiveFilter[] = [
+      term('category', 'category', 'History'),
+      { type: 'range', facet: 'length', field: 'length', from: 100, to: 1000 },
+      { type: 'range', facet: 'length', field: 'length', to: 1000 },
+      { type: 'range', facet: 'length', field: 'length', from: 1000 }
+    ]
+    expect(filters.map(formatFilter)).toEqual(['category:History', 'length:100..1000', 'length:..1000', 'length:1000..'])
+    expect(filters.map((filter) => parseFilter(formatFilter(filter), facets))).toEqual(filters)
+  })
+
+  it('keeps colons after the first one in term values', () => {
+    expect(parseFilter('category:Time: 20th century', facets)).toEqual(term('category', 'category', 'Time: 20th century'))
+  })
+
+  it('maps the facet name to its field', () => {
+    expect(parseFilter('lang:en', facets)).toEqual(term('lang', 'language', 'en'))
+  })
+
+  it('rejects strings without a separator or for unknown facets', () => {
+    expect(parseFilter('category', facets)).toBeNull()
+    expect(parseFilter('', facets)).toBeNull()
+    expect(parseFilter(':History', facets)).toBeNull()
+    expect(parseFilter('color:red', facets)).toBeNull()
+  })
+
+  it('rejects ranges with non-numeric bounds', () => {
+    expect(parseFilter('length:a..1000', facets)).toBeNull()
+    expect(parseFilter('length:100..b', facets)).toBeNull()
+  })
+})
@@ -0,0 +1,135 @@
+// Facet definitions, aggregation requests and filter clauses
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('Facets')
+
+export interface RangeSpec {
+  from?: number
+  to?: number
+}
+
+export type FacetDefinition =
+  | { type: 'term'; name: string; field: string; label: string; size?: number }
+  | { type: 'range'; name: string; field: string; label: string; ranges: RangeSpec[] }
+
+export interface TermBucket {
+  term: string
+  count: number
+}
+
+export interface RangeBucket extends RangeSpec {
+  count: number
+}
+
+export interface AggregationResult {
+  buckets: (TermBucket | RangeBucket)[]
+}
+
+export type ActiveFilter =
+  | { type: 'term'; facet: string; field: string; value: string }
+  | { type: 'range'; facet: string; field: string; from?: number; to?: number }
+
+// Facets come from VITE_FACETS as a JSON array of FacetDefinition, e.g.
+// [{"type":"term","name":"category","field":"category","label":"Category"}].
+// The demo wiki index has no facetable fields, so the default is none.
+export function parseFacetConfig(raw: string | undefined): FacetDefinition[] {
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw)
+    if (!Array.isArray(parsed)) throw new Error('expected an array')
+    return parsed.filter(
+      (facet): facet is FacetDefinition =>
+        typeof facet?.name === 'string' &&
+        typeof facet?.field === 'string' &&
+        (facet.type === 'term' || (facet.type === 'range' && Array.isArray(facet.ranges)))
+    ).map((facet) => ({ ...facet, label: facet.label ?? facet.name }))
+  } catch (err) {
+    log.error('Invalid VITE_FACETS, facets disabled:', err)
+    return []
+  }
+}
+
+export const FACETS: FacetDefinition[] = parseFacetConfig(import.meta.env.VITE_FACETS)
+
+export function buildAggregations(facets: FacetDefinition[]) {
+  return Object.fromEntries(
+    facets.map((facet) => [
+      facet.name,
+      facet.type === 'term'
+        ? { term: { field: facet.field, size: facet.size ?? 10 } }
+        : { range: { field: facet.field, ranges: facet.ranges } }
+    ])
+  )
+}
+
+function filterClause(filter: ActiveFilter) {
+  if (filter.type === 'term') {
+    return { term: { [filter.field]: filter.value } }
+  }
+  return {
+    range: {
+      [filter.field]: {
+        ...(filter.from !== undefined && { gte: filter.from }),
+        ...(filter.to !== undefined && { lt: filter.to })
+      }
+    }
+  }
+}
+
+// Values of the same facet are OR-ed, different facets are AND-ed
+export function buildFilterClause(filters: ActiveFilter[]) {
+  if (filters.length === 0) return undefined
+
+  const byFacet = new Map<string, ActiveFilter[]>()
+  for (const filter of filters) {
+    byFacet.set(filter.facet, [...(byFacet.get(filter.facet) ?? []), filter])
+  }
+  const groups = [...byFacet.values()].map((group) =>
+    group.length === 1 ? filterClause(group[0]) : { or: group.map(filterClause) }
+  )
+  return { include: groups.length === 1 ? groups[0] : { and: groups } }
+}
+
+export function rangeLabel({ from, to }: RangeSpec): string {
+  if (from !== undefined && to !== undefined) return `${from} – ${to}`
+  if (from !== undefined) return `≥ ${from}`
+  if (to !== undefined) return `< ${to}`
+  return 'Any'
+}
+
+export function filterFromBucket(facet: FacetDefinition, bucket: TermBucket | RangeBucket): ActiveFilter {
+  if (facet.type === 'term') {
+    return { type: 'term', facet: facet.name, field: facet.field, value: (bucket as TermBucket).term }
+  }
+  const { from, to } = bucket as RangeBucket
+  return { type: 'range', facet: facet.name, field: facet.field, from, to }
+}
+
+// Compact string form, also used in the URL: "category:History", "length:100..1000"
+export function formatFilter(filter: ActiveFilter): string {
+  if (filter.type === 'term') return `${filter.facet}:${filter.value}`
+  return `${filter.facet}:${filter.from ?? ''}..${filter.to ?? ''}`
+}
+
+export function parseFilter(value: string, facets: FacetDefinition[]): ActiveFilter | null {
+  const separator = value.indexOf(':')
+  if (separator < 0) return null
+  const facet = facets.find((f) => f.name === value.slice(0, separator))
+  const rest = value.slice(separator + 1)
+  if (!facet) return null
+
+  if (facet.type === 'term') {
+    return { type: 'term', facet: facet.name, field: facet.field, value: rest }
+  }
+  const [fromRaw, toRaw] = rest.split('..')
+  const from = fromRaw ? Number(fromRaw) : undefined
+  const to = toRaw ? Number(toRaw) : undefined
+  if ((from !== undefined && !Number.isFinite(from)) || (to !== undefined && !Number.isFinite(to))) return null
+  return { type: 'range', facet: facet.name, field: facet.field, from, to }
+}
+
+export function filterLabel(filter: ActiveFilter, facets: FacetDefinition[]): string {
+  const facetLabel = facets.find((f) => f.name === filter.facet)?.label ?? filter.facet
+  const value = filter.type === 'term' ? filter.value : rangeLabel(filter)
+  return `${facetLabel}: ${value}`
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import {
+  extractSnippet,
+  highlightField,
+  highlightText,
+  parseHighlightFragment,
+  tokenize,
+  type Segment
+} from '@/lib/highlight'
+
+const joined = (segments: Segment[]) => segments.map((s) => s.text).join('')
+const matched = (segments: Segment[]) => segments.filter((s) => s.match).map((s) => s.text)
+
+describe('tokenize', () => {
+  it('lowercases, drops stopwords and duplicates', () => {
+    expect(tokenize('The History of Rome and rome')).toEqual(['history', 'rome'])
+  })
+
+  it('keeps non-ASCII words and numbers', () => {
+    expect(tokenize('Zürich 1848')).toEqual(['zürich', '1848'])
+  })
+
+  it('returns nothing for punctuation-only input', () => {
+    expect(tokenize('?!')).toEqual([])
+  })
+})
+
+describe('highlightText', () => {
+  it('marks exact and prefix matches case-insensitively', () => {
+    const segments = highlightText('Rivers of Europe: the river Danube', ['river', 'danube'])
+    expect(matched(segments)).toEqual(['Rivers', 'river', 'Danube'])
+    expect(joined(segments)).toBe('Rivers of Europe: the river Danube')
+  })
+
+  it('does not prefix-match short terms', () => {
+    expect(matched(highlightText('US user', ['us']))).toEqual(['US'])
+  })
+
+  it('returns the whole text unmarked without terms', () => {
+    expect(highlightText('Plain text', [])).toEqual([{ text: 'Plain text', match: false }])
+  })
+})
+
+describe('extractSnippet', () => {
+  const filler = (n: number) => Array.from({ length: n }, (_, i) => `word${i}`).join(' ')
+
+  it('returns short text whole', () => {
+    expect(joined(extractSnippet('Short text about Rome', ['rome'], 100))).toBe('Short text about Rome')
+  })
+
+  it('centres the snippet on a match deep in the text', () => {
+    const text = `${filler(200)} the Colosseum is in Rome ${filler(200)}`
+    const segments = extractSnippet(text, ['colosseum', 'rome'], 120)
+    expect(segments[0]).toEqual({ text: '...', match: false })
+    expect(segments[segments.length - 1]).toEqual({ text: '...', match: false })
+    expect(matched(segments)).toEqual(['Colosseum', 'Rome'])
+  })
+
+  it('prefers the window covering more distinct terms', () => {
+    const text = `Rome ${filler(100)} Rome Colosseum ${filler(100)}`
+    const segments = extractSnippet(text, ['rome', 'colosseum'], 80)
+    expect(matched(segments)).toEqual(['Rome', 'Colosseum'])
+  })
+
+  it('falls back to the start of the text without matches', () => {
+    const text = filler(100)
+    const segments = extractSnippet(text, ['missing'], 50)
+    expect(joined(segments).startsWith('word0 word1')).toBe(true)
+    expect(segments[segments.length - 1]).toEqual({ text: '...', match: false })
+  })
+
+  it('does not cut words at the snippet edges', () => {
+    const text = `${filler(50)} Rome ${filler(50)}`
+    const body = joined(extractSnippet(text, ['rome'], 60)).replace(/^\.\.\.|\.\.\.$/g, '')
+    expect(body.trim().split(/\s+/).every((word) => word === 'Rome' || /^word\d+$/.test(word))).toBe(true)
+  })
+})
+
+describe('parseHighlightFragment', () => {
+  it('splits <em> tags into matched segments', () => {
+    expect(parseHighlightFragment('the <em>Roman</em> <em>Empire</em>')).toEqual([
+      { text: 'the ', match: false },
+      { text: 'Roman', match: true },
+      { text: ' ', match: false },
+      { text: 'Empire', match: true }
+    ])
+  })
+
+  it('keeps other markup as plain text', () => {
+    expect(parseHighlightFragment('<b>x</b>')).toEqual([{ text: '<b>x</b>', match: false }])
+  })
+})
+
+describe('highlightField', () => {
+  it('prefers server fragments', () => {
+    const segments = highlightField('ignored', 'rome', ['in <em>Rome</em>', 'to <em>Rome</em>'])
+    expect(joined(segments)).toBe('in Rome ... to Rome')
+    expect(matched(segments)).toEqual(['Rome', 'Rome'])
+  })
+
+  it('falls back to client-side matching', () => {
+    expect(matched(highlightField('Ancient Rome', 'rome', undefined))).toEqual(['Rome'])
+    expect(matched(highlightField('Ancient Rome', 'rome', []))).toEqual(['Rome'])
+  })
+})
@@ -0,0 +1,140 @@
+// Query term highlighting and snippet extraction for result cards
+
+export interface Segment {
+  text: string
+  match: boolean
+}
+
+// Words too common to be worth highlighting
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'was', 'were', 'what', 'when', 'where', 'who', 'with'
+])
+
+const WORD = /[\p{L}\p{N}]+/gu
+
+// Lowercased, de-duplicated query terms without stopwords
+export function tokenize(query: string): string[] {
+  const words = query.toLowerCase().match(WORD) ?? []
+  return [...new Set(words.filter((word) => !STOPWORDS.has(word)))]
+}
+
+// A word matches a term exactly, or by prefix for terms of 3+ characters
+// so that e.g. "river" also highlights "rivers"
+function matchingTerm(word: string, terms: string[]): string | null {
+  const lower = word.toLowerCase()
+  return terms.find((term) => lower === term || (term.length >= 3 && lower.startsWith(term))) ?? null
+}
+
+interface WordMatch {
+  start: number
+  end: number
+  term: string
+}
+
+function findMatches(text: string, terms: string[]): WordMatch[] {
+  if (terms.length === 0) return []
+  const matches: WordMatch[] = []
+  for (const m of text.matchAll(WORD)) {
+    const term = matchingTerm(m[0], terms)
+    if (term !== null) {
+      matches.push({ start: m.index, end: m.index + m[0].length, term })
+    }
+  }
+  return matches
+}
+
+function segmentsFor(text: string, matches: WordMatch[]): Segment[] {
+  const segments: Segment[] = []
+  let cursor = 0
+  for (const { start, end } of matches) {
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false })
+    segments.push({ text: text.slice(start, end), match: true })
+    cursor = end
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false })
+  return segments
+}
+
+export function highlightText(text: string, terms: string[]): Segment[] {
+  return segmentsFor(text, findMatches(text, terms))
+}
+
+// Moves an offset back to the start of the word it falls in
+function snapToWordStart(text: string, offset: number): number {
+  while (offset > 0 && /[\p{L}\p{N}]/u.test(text[offset - 1])) offset--
+  return offset
+}
+
+// Moves an offset forward to the end of the word it falls in
+function snapToWordEnd(text: string, offset: number): number {
+  while (offset < text.length && /[\p{L}\p{N}]/u.test(text[offset])) offset++
+  return offset
+}
+
+// Characters of context kept before the first match of a snippet
+const LEAD_CONTEXT = 60
+
+// Picks the maxLength window covering the most distinct query terms (then the
+// most matches), and highlights the terms in it. Falls back to the start of the
+// text when nothing matches.
+export function extractSnippet(text: string, terms: string[], maxLength: number = 500): Segment[] {
+  if (text.length <= maxLength) return highlightText(text, terms)
+
+  const matches = findMatches(text, terms)
+  let windowStart = 0
+  let best = { distinct: 0, count: 0 }
+
+  for (const anchor of matches) {
+    const start = Math.max(0, anchor.start - LEAD_CONTEXT)
+    const inWindow = matches.filter((m) => m.start >= start && m.end <= start + maxLength)
+    const score = { distinct: new Set(inWindow.map((m) => m.term)).size, count: inWindow.length }
+    if (score.distinct > best.distinct || (score.distinct === best.distinct && score.count > best.count)) {
+      best = score
+      windowStart = start
+    }
+  }
+
+  const start = windowStart === 0 ? 0 : snapToWordStart(text, windowStart)
+  const end = Math.min(text.length, snapToWordEnd(text, start + maxLength))
+  const snippet = text.slice(start, end)
+  const segments = segmentsFor(
+    snippet,
+    matches
+      .filter((m) => m.start >= start && m.end <= end)
+      .map((m) => ({ ...m, start: m.start - start, end: m.end - start }))
+  )
+
+  if (start > 0) segments.unshift({ text: '...', match: false })
+  if (end < text.length) segments.push({ text: '...', match: false })
+  return segments
+}
+
+// Parses a server highlight fragment where matches are wrapped in <em> tags.
+// Tags are split out as text, never rendered as HTML.
+export function parseHighlightFragment(fragment: string): Segment[] {
+  const segments: Segment[] = []
+  const parts = fragment.split(/<em>|<\/em>/)
+  parts.forEach((part, index) => {
+    // Odd parts sit between an opening and a closing tag
+    if (part) segments.push({ text: part, match: index % 2 === 1 })
+  })
+  return segments
+}
+
+// Server fragments win when present; otherwise highlight client-side
+export function highlightField(
+  text: string,
+  query: string,
+  fragments: string[] | undefined,
+  maxLength?: number
+): Segment[] {
+  if (fragments && fragments.length > 0) {
+    return fragments.flatMap((fragment, index) => [
+      ...(index > 0 ? [{ text: ' ... ', match: false }] : []),
+      ...parseHighlightFragment(fragment)
+    ])
+  }
+  const terms = tokenize(query)
+  return maxLength === undefined ? highlightText(text, terms) : extractSnippet(text, terms, maxLength)
+}
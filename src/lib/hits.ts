@@ -0,0 +1,30 @@
+// Display text for the stored fields of search hits
+import type { IndexConfig } from '@/lib/indexConfig'
+import type { SearchHit } from '@/lib/types'
+
+// Strings as-is, numbers and booleans stringified, arrays comma-joined,
+// anything else as JSON
+export function fieldText(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  if (Array.isArray(value)) return value.map(fieldText).filter((text) => text !== '').join(', ')
+  return JSON.stringify(value)
+}
+
+// Falls back to the document id when the title field is empty
+export function hitTitle(hit: SearchHit, config: Pick<IndexConfig, 'titleField'>): string {
+  return fieldText(hit[config.titleField]) || hit._id
+}
+
+export function hitContent(hit: SearchHit, config: Pick<IndexConfig, 'contentField'>): string {
+  return fieldText(hit[config.contentField])
+}
+
+// Non-empty stored fields other than the title and content, in response order
+export function extraFields(hit: SearchHit, config: Pick<IndexConfig, 'titleField' | 'contentField'>): [string, string][] {
+  return Object.entries(hit)
+    .filter(([name]) => !name.startsWith('_') && name !== config.titleField && name !== config.contentField)
+    .map(([name, value]): [string, string] => [name, fieldText(value)])
+    .filter(([, text]) => text !== '')
+}
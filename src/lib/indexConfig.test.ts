@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  DEFAULT_INDEX_CONFIG,
+  detectFields,
+  indexUrl,
+  parseMapping,
+  requestedFields,
+  resetIndexConfig,
+  sanitizeIndexConfig,
+  setIndexConfig
+} from '@/lib/indexConfig'
+import { DEFAULT_RETRIEVAL_CONFIG, buildSearchRequest } from '@/lib/retrieval'
+import { extraFields, fieldText, hitTitle } from '@/lib/hits'
+
+const mapping = {
+  name: 'movies',
+  fields: {
+    _id: { type: 'id' },
+    name: { type: 'text', search: { lexical: { analyze: 'english' } }, suggest: { lowercase: true } },
+    overview: { type: 'text', search: { lexical: { analyze: 'english' }, semantic: { model: 'e5' } } },
+    year: { type: 'int', filter: true },
+    poster: { type: 'text', store: false },
+    'tag_*': { type: 'text[]' }
+  }
+}
+
+describe('sanitizeIndexConfig', () => {
+  it('keeps valid keys and falls back for the rest', () => {
+    expect(
+      sanitizeIndexConfig({ baseUrl: 'https://search.example.com/', index: ' movies ', titleField: 3, semanticField: null }, DEFAULT_INDEX_CONFIG)
+    ).toEqual({
+      ...DEFAULT_INDEX_CONFIG,
+      baseUrl: 'https://search.example.com',
+      index: 'movies',
+      semanticField: null
+    })
+    expect(sanitizeIndexConfig('nope', DEFAULT_INDEX_CONFIG)).toBe(DEFAULT_INDEX_CONFIG)
+  })
+
+  it('builds endpoint URLs from the base URL and index', () => {
+    expect(indexUrl({ ...DEFAULT_INDEX_CONFIG, baseUrl: 'https://x.dev', index: 'my index' }, 'search')).toBe(
+      'https://x.dev/v1/index/my%20index/search'
+    )
+    expect(indexUrl({ ...DEFAULT_INDEX_CONFIG, baseUrl: '' }, 'suggest')).toBe('/v1/index/wiki/suggest')
+  })
+})
+
+describe('mapping detection', () => {
+  it('reads field capabilities, skipping internal and wildcard fields', () => {
+    expect(parseMapping(mapping)).toEqual([
+      { name: 'name', type: 'text', lexical: true, semantic: false, suggest: true, stored: true },
+      { name: 'overview', type: 'text', lexical: true, semantic: true, suggest: false, stored: true },
+      { name: 'year', type: 'int', lexical: false, semantic: false, suggest: false, stored: true },
+      { name: 'poster', type: 'text', lexical: false, semantic: false, suggest: false, stored: false }
+    ])
+    expect(parseMapping({ fields: [{ name: 'title', type: 'text', search: true }] })[0].lexical).toBe(true)
+    expect(parseMapping(null)).toEqual([])
+  })
+
+  it('picks title, content, semantic and suggest fields', () => {
+    expect(detectFields(parseMapping(mapping))).toEqual({
+      titleField: 'name',
+      contentField: 'overview',
+      semanticField: 'overview',
+      suggestField: 'name',
+      storedFields: ['name', 'overview', 'year']
+    })
+  })
+
+  it('disables semantic search and suggestions when the index has none', () => {
+    const detected = detectFields(parseMapping({ fields: { body: { type: 'text', search: { lexical: {} } } } }))
+    expect(detected).toMatchObject({ titleField: 'body', contentField: 'body', semanticField: null, suggestField: null })
+  })
+})
+
+describe('configured fields in requests', () => {
+  afterEach(() => resetIndexConfig())
+
+  it('searches and returns the configured fields', () => {
+    setIndexConfig({ ...DEFAULT_INDEX_CONFIG, titleField: 'name', contentField: 'overview', semanticField: 'overview', storedFields: ['year'] })
+    const request = buildSearchRequest('alien', { ...DEFAULT_RETRIEVAL_CONFIG, titleBoost: 2 })
+    expect(request.query).toEqual({
+      rrf: {
+        retrieve: [{ multi_match: { query: 'alien', fields: ['name^2', 'overview'] } }, { semantic: { field: 'overview', query: 'alien' } }],
+        rank_constant: 60,
+        rank_window_size: 20
+      }
+    })
+    expect(request.fields).toEqual(['_id', 'name', 'overview', 'year'])
+  })
+
+  it('falls back to lexical retrieval without a semantic field', () => {
+    setIndexConfig({ ...DEFAULT_INDEX_CONFIG, semanticField: null })
+    expect(buildSearchRequest('rome', { ...DEFAULT_RETRIEVAL_CONFIG, mode: 'semantic' }).query).toEqual({
+      multi_match: { query: 'rome', fields: ['title', 'content'] }
+    })
+  })
+
+  it('builds requests for a given index config over the app-wide one', () => {
+    const movies = { ...DEFAULT_INDEX_CONFIG, titleField: 'name', contentField: 'overview', storedFields: [] }
+    const request = buildSearchRequest('rome', { ...DEFAULT_RETRIEVAL_CONFIG, mode: 'lexical' }, { indexConfig: movies })
+    expect(request.query).toEqual({ multi_match: { query: 'rome', fields: ['name', 'overview'] } })
+    expect(request.fields).toEqual(['_id', 'name', 'overview'])
+  })
+
+  it('requests title and content even when not listed as stored', () => {
+    expect(requestedFields({ ...DEFAULT_INDEX_CONFIG, storedFields: ['url'] })).toEqual(['title', 'content', 'url'])
+  })
+})
+
+describe('hit fields', () => {
+  const hit = { _id: 'tt0078748', _score: 1, name: '', overview: 'In space', year: 1979, genres: ['horror', 'sci-fi'], empty: null }
+
+  it('renders stored values as text', () => {
+    expect(fieldText(['a', 1, null])).toBe('a, 1')
+    expect(fieldText({ a: 1 })).toBe('{"a":1}')
+  })
+
+  it('falls back to the id for an empty title and lists the other fields', () => {
+    const fields = { titleField: 'name', contentField: 'overview' }
+    expect(hitTitle(hit, fields)).toBe('tt0078748')
+    expect(extraFields(hit, fields)).toEqual([
+      ['year', '1979'],
+      ['genres', 'horror, sci-fi']
+    ])
+  })
+})
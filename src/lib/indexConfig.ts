@@ -0,0 +1,185 @@
+// Runtime backend, index and field configuration
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('Config')
+
+export interface IndexConfig {
+  // Nixiesearch base URL; empty uses relative URLs (Vite proxy in dev)
+  baseUrl: string
+  index: string
+  // Card heading, searched lexically with the title boost
+  titleField: string
+  // Card snippet, searched lexically with the content boost
+  contentField: string
+  // Field with embeddings; null falls back to lexical-only retrieval
+  semanticField: string | null
+  // Field with suggest enabled; null turns autocomplete off
+  suggestField: string | null
+  // Stored fields requested with each search; the ones other than title and
+  // content are listed on the result cards
+  storedFields: string[]
+}
+
+export const DEFAULT_INDEX_CONFIG: IndexConfig = {
+  baseUrl: import.meta.env.VITE_API_BASE_URL || '',
+  index: import.meta.env.VITE_INDEX || 'wiki',
+  titleField: 'title',
+  contentField: 'content',
+  semanticField: 'content',
+  suggestField: 'title',
+  storedFields: ['title', 'content']
+}
+
+const STORAGE_KEY = 'lambda-demo-ui:index-config'
+
+const isField = (value: unknown): value is string => typeof value === 'string' && value.trim() !== ''
+
+// Takes the valid keys of `raw` over `base`; null disables the optional fields
+export function sanitizeIndexConfig(raw: unknown, base: IndexConfig): IndexConfig {
+  if (typeof raw !== 'object' || raw === null) return base
+  const r = raw as Record<string, unknown>
+  const optionalField = (value: unknown, fallback: string | null) =>
+    value === null ? null : isField(value) ? value.trim() : fallback
+  return {
+    baseUrl: typeof r.baseUrl === 'string' ? r.baseUrl.trim().replace(/\/+$/, '') : base.baseUrl,
+    index: isField(r.index) ? r.index.trim() : base.index,
+    titleField: isField(r.titleField) ? r.titleField.trim() : base.titleField,
+    contentField: isField(r.contentField) ? r.contentField.trim() : base.contentField,
+    semanticField: optionalField(r.semanticField, base.semanticField),
+    suggestField: optionalField(r.suggestField, base.suggestField),
+    storedFields:
+      Array.isArray(r.storedFields) && r.storedFields.every(isField) ? r.storedFields.map((f) => f.trim()) : base.storedFields
+  }
+}
+
+// Defaults plus public/config.json; what "Reset" returns to
+let deployedConfig = DEFAULT_INDEX_CONFIG
+let currentConfig = DEFAULT_INDEX_CONFIG
+const listeners = new Set<() => void>()
+
+export function getIndexConfig(): IndexConfig {
+  return currentConfig
+}
+
+export function subscribeIndexConfig(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+function applyConfig(config: IndexConfig) {
+  currentConfig = config
+  listeners.forEach((listener) => listener())
+}
+
+// Applies settings from the settings panel and remembers them in localStorage
+export function setIndexConfig(config: IndexConfig) {
+  applyConfig(config)
+  try {
+    globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(config))
+  } catch (err) {
+    log.error('Failed to save index config:', err)
+  }
+}
+
+// Drops saved settings and goes back to the deployed config
+export function resetIndexConfig() {
+  applyConfig(deployedConfig)
+  try {
+    globalThis.localStorage?.removeItem(STORAGE_KEY)
+  } catch {
+    // storage unavailable
+  }
+}
+
+// Loads config.json next to index.html (optional), then settings saved in
+// this browser. Never rejects; failures keep the defaults.
+export async function loadIndexConfig(): Promise<IndexConfig> {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}config.json`)
+    if (response.ok) {
+      deployedConfig = sanitizeIndexConfig(await response.json(), DEFAULT_INDEX_CONFIG)
+      log.info('Loaded config.json:', deployedConfig)
+    }
+  } catch (err) {
+    log.warn('No usable config.json, using defaults:', err)
+  }
+
+  let saved: unknown = null
+  try {
+    const stored = globalThis.localStorage?.getItem(STORAGE_KEY)
+    saved = stored ? JSON.parse(stored) : null
+  } catch (err) {
+    log.error('Failed to load saved index config:', err)
+  }
+  applyConfig(sanitizeIndexConfig(saved, deployedConfig))
+  return currentConfig
+}
+
+// Stored fields to request; title and content are always included
+export function requestedFields(config: IndexConfig): string[] {
+  return [...new Set([config.titleField, config.contentField, ...config.storedFields])]
+}
+
+// URL of an index endpoint such as "search", "suggest" or "mapping"
+export function indexUrl(config: IndexConfig, endpoint: string): string {
+  return `${config.baseUrl}/v1/index/${encodeURIComponent(config.index)}/${endpoint}`
+}
+
+export interface MappingField {
+  name: string
+  type: string
+  lexical: boolean
+  semantic: boolean
+  suggest: boolean
+  stored: boolean
+}
+
+function readField(name: string, raw: unknown): MappingField | null {
+  if (typeof raw !== 'object' || raw === null || name.startsWith('_') || name.includes('*')) return null
+  const field = raw as Record<string, unknown>
+  const search = field.search
+  const searchObject = typeof search === 'object' && search !== null ? (search as Record<string, unknown>) : {}
+  return {
+    name,
+    type: typeof field.type === 'string' ? field.type : 'unknown',
+    // Older mappings use "search": true for lexical text fields
+    lexical: search === true || (searchObject.lexical !== undefined && searchObject.lexical !== null),
+    semantic: searchObject.semantic !== undefined && searchObject.semantic !== null,
+    suggest: field.suggest !== undefined && field.suggest !== null && field.suggest !== false,
+    stored: field.store !== false
+  }
+}
+
+// Fields of a Nixiesearch index mapping response; accepts "fields" as an
+// object keyed by name or as an array of {name, ...}
+export function parseMapping(json: unknown): MappingField[] {
+  const fields = (json as { fields?: unknown } | null)?.fields
+  const entries: [string, unknown][] = Array.isArray(fields)
+    ? fields.map((field) => [String((field as { name?: unknown })?.name ?? ''), field])
+    : typeof fields === 'object' && fields !== null
+      ? Object.entries(fields)
+      : []
+  return entries.map(([name, raw]) => readField(name, raw)).filter((field) => field !== null)
+}
+
+// Picks title, content, semantic and suggest fields from a mapping,
+// preferring conventional names
+export function detectFields(fields: MappingField[]): Partial<IndexConfig> {
+  const lexical = fields.filter((f) => f.lexical)
+  const byName = (candidates: MappingField[], names: string[]) =>
+    names.map((name) => candidates.find((f) => f.name === name)).find((f) => f !== undefined)
+
+  const title = byName(lexical, ['title', 'name', 'headline']) ?? lexical[0]
+  const content =
+    byName(lexical, ['content', 'text', 'body', 'description']) ?? lexical.find((f) => f !== title) ?? title
+  const semantic = fields.filter((f) => f.semantic)
+  const suggest = fields.filter((f) => f.suggest)
+
+  return {
+    ...(title && { titleField: title.name }),
+    ...(content && { contentField: content.name }),
+    semanticField: (content && semantic.find((f) => f.name === content.name)?.name) ?? semantic[0]?.name ?? null,
+    suggestField: (title && suggest.find((f) => f.name === title.name)?.name) ?? suggest[0]?.name ?? null,
+    storedFields: fields.filter((f) => f.stored).map((f) => f.name)
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_INSTANT_SETTINGS, isInstantQuery, sanitizeInstantSettings } from '@/lib/instantSearch'
+
+describe('instant search settings', () => {
+  it('falls back to defaults for missing or mistyped values', () => {
+    expect(sanitizeInstantSettings(null)).toEqual(DEFAULT_INSTANT_SETTINGS)
+    expect(sanitizeInstantSettings({ enabled: 'yes', debounceMs: '100', minLength: NaN })).toEqual(DEFAULT_INSTANT_SETTINGS)
+  })
+
+  it('clamps and rounds numbers', () => {
+    expect(sanitizeInstantSettings({ enabled: true, debounceMs: -5, minLength: 0 })).toEqual({
+      enabled: true,
+      debounceMs: 0,
+      minLength: 1
+    })
+    expect(sanitizeInstantSettings({ debounceMs: 99999, minLength: 2.6 })).toMatchObject({ debounceMs: 5000, minLength: 3 })
+  })
+
+  it('searches only when enabled and the trimmed query is long enough', () => {
+    const settings = { ...DEFAULT_INSTANT_SETTINGS, enabled: true, minLength: 3 }
+    expect(isInstantQuery('rom', settings)).toBe(true)
+    expect(isInstantQuery('  ro  ', settings)).toBe(false)
+    expect(isInstantQuery('rome', { ...settings, enabled: false })).toBe(false)
+  })
+})
@@ -0,0 +1,60 @@
+// Settings for search-as-you-type, persisted in localStorage
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('Instant')
+
+export interface InstantSearchSettings {
+  enabled: boolean
+  // Pause in typing before a search is sent
+  debounceMs: number
+  // Shorter queries (after trimming) wait for Enter
+  minLength: number
+}
+
+export const DEFAULT_INSTANT_SETTINGS: InstantSearchSettings = {
+  enabled: false,
+  debounceMs: 250,
+  minLength: 3
+}
+
+const STORAGE_KEY = 'lambda-demo-ui:instant-search'
+
+const MAX_DEBOUNCE_MS = 5000
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(Math.round(value), min), max) : fallback
+}
+
+// Out-of-range or mistyped values fall back to or are clamped towards the defaults
+export function sanitizeInstantSettings(raw: unknown): InstantSearchSettings {
+  const settings = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>) : {}
+  const defaults = DEFAULT_INSTANT_SETTINGS
+  return {
+    enabled: typeof settings.enabled === 'boolean' ? settings.enabled : defaults.enabled,
+    debounceMs: clampInteger(settings.debounceMs, 0, MAX_DEBOUNCE_MS, defaults.debounceMs),
+    minLength: clampInteger(settings.minLength, 1, 50, defaults.minLength)
+  }
+}
+
+// Whether typing `query` should trigger an instant search
+export function isInstantQuery(query: string, settings: InstantSearchSettings): boolean {
+  return settings.enabled && query.trim().length >= settings.minLength
+}
+
+export function loadInstantSettings(): InstantSearchSettings {
+  try {
+    const stored = globalThis.localStorage?.getItem(STORAGE_KEY)
+    return sanitizeInstantSettings(stored ? JSON.parse(stored) : null)
+  } catch (err) {
+    log.error('Failed to load instant search settings:', err)
+    return DEFAULT_INSTANT_SETTINGS
+  }
+}
+
+export function saveInstantSettings(settings: InstantSearchSettings) {
+  try {
+    globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (err) {
+    log.error('Failed to save instant search settings:', err)
+  }
+}
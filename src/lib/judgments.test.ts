@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import {
+  countJudgments,
+  getGrade,
+  judgmentsToJson,
+  judgmentsToQrels,
+  mergeJudgments,
+  normalizeQuery,
+  parseJudgmentsFile,
+  parseQrels,
+  setGrade,
+  type Judgments
+} from '@/lib/judgments'
+
+describe('setGrade', () => {
+  it('stores grades under the normalized query', () => {
+    const judgments = setGrade({}, '  Roman   Empire ', 'doc1', 3)
+    expect(judgments).toEqual({ 'roman empire': { doc1: 3 } })
+    expect(getGrade(judgments, 'roman empire', 'doc1')).toBe(3)
+    expect(normalizeQuery('A  B')).toBe('a b')
+  })
+
+  it('removes a grade and drops queries left empty', () => {
+    const judgments = setGrade({ rome: { doc1: 2 } }, 'rome', 'doc1', null)
+    expect(judgments).toEqual({})
+  })
+
+  it('does not mutate its input', () => {
+    const original: Judgments = { rome: { doc1: 1 } }
+    setGrade(original, 'rome', 'doc2', 2)
+    expect(original).toEqual({ rome: { doc1: 1 } })
+  })
+})
+
+describe('mergeJudgments and countJudgments', () => {
+  it('lets incoming grades win', () => {
+    const merged = mergeJudgments({ rome: { a: 1, b: 2 } }, { rome: { a: 3 }, paris: { c: 0 } })
+    expect(merged).toEqual({ rome: { a: 3, b: 2 }, paris: { c: 0 } })
+    expect(countJudgments(merged)).toEqual({ queries: 2, documents: 3 })
+  })
+})
+
+describe('qrels', () => {
+  const judgments: Judgments = { 'roman empire': { doc1: 3, doc2: 0 } }
+
+  it('round-trips queries with whitespace', () => {
+    const qrels = judgmentsToQrels(judgments)
+    expect(qrels).toBe('roman%20empire 0 doc1 3\nroman%20empire 0 doc2 0\n')
+    expect(parseQrels(qrels)).toEqual(judgments)
+  })
+
+  it('rejects malformed lines with their line number', () => {
+    expect(() => parseQrels('rome 0 doc1 3\nrome 0 doc2')).toThrow(/line 2/)
+    expect(() => parseQrels('rome 0 doc1 7')).toThrow(/line 1/)
+  })
+})
+
+describe('parseJudgmentsFile', () => {
+  it('reads the JSON export', () => {
+    expect(parseJudgmentsFile(judgmentsToJson({ rome: { a: 2 } }))).toEqual({ rome: { a: 2 } })
+  })
+
+  it('reads a bare JSON object and drops invalid grades', () => {
+    expect(parseJudgmentsFile('{"Rome": {"a": 1, "b": 9, "c": "2"}}')).toEqual({ rome: { a: 1 } })
+  })
+
+  it('falls back to qrels', () => {
+    expect(parseJudgmentsFile('rome 0 a 2\n')).toEqual({ rome: { a: 2 } })
+  })
+})
@@ -0,0 +1,144 @@
+// Graded relevance judgments per query, persisted in localStorage
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('Judgments')
+
+// 0 = not relevant, 1 = marginal, 2 = relevant, 3 = highly relevant
+export type Grade = 0 | 1 | 2 | 3
+
+export const GRADES: Grade[] = [0, 1, 2, 3]
+
+export const GRADE_LABELS: Record<Grade, string> = {
+  0: 'Not relevant',
+  1: 'Marginal',
+  2: 'Relevant',
+  3: 'Highly relevant'
+}
+
+// query -> document _id -> grade
+export type Judgments = Record<string, Record<string, Grade>>
+
+const STORAGE_KEY = 'lambda-demo-ui:judgments'
+
+// Judgments are keyed by the trimmed, lowercased, whitespace-collapsed query
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+function isGrade(value: unknown): value is Grade {
+  return value === 0 || value === 1 || value === 2 || value === 3
+}
+
+export function setGrade(judgments: Judgments, query: string, docId: string, grade: Grade | null): Judgments {
+  const key = normalizeQuery(query)
+  const grades = { ...judgments[key] }
+  if (grade === null) {
+    delete grades[docId]
+  } else {
+    grades[docId] = grade
+  }
+  const next = { ...judgments, [key]: grades }
+  if (Object.keys(grades).length === 0) delete next[key]
+  return next
+}
+
+export function getGrade(judgments: Judgments, query: string, docId: string): Grade | undefined {
+  return judgments[normalizeQuery(query)]?.[docId]
+}
+
+// Imported judgments win over existing ones for the same query and document
+export function mergeJudgments(base: Judgments, incoming: Judgments): Judgments {
+  const merged = { ...base }
+  for (const [query, grades] of Object.entries(incoming)) {
+    merged[query] = { ...merged[query], ...grades }
+  }
+  return merged
+}
+
+export function countJudgments(judgments: Judgments): { queries: number; documents: number } {
+  const queries = Object.keys(judgments)
+  return {
+    queries: queries.length,
+    documents: queries.reduce((sum, q) => sum + Object.keys(judgments[q]).length, 0)
+  }
+}
+
+function sanitize(raw: unknown): Judgments {
+  const judgments: Judgments = {}
+  if (typeof raw !== 'object' || raw === null) return judgments
+  for (const [query, grades] of Object.entries(raw)) {
+    if (typeof grades !== 'object' || grades === null) continue
+    for (const [docId, grade] of Object.entries(grades)) {
+      if (isGrade(grade)) {
+        const key = normalizeQuery(query)
+        judgments[key] = { ...judgments[key], [docId]: grade }
+      }
+    }
+  }
+  return judgments
+}
+
+export function loadJudgments(): Judgments {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? sanitize(JSON.parse(stored)) : {}
+  } catch (err) {
+    log.error('Failed to load from localStorage:', err)
+    return {}
+  }
+}
+
+export function saveJudgments(judgments: Judgments) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(judgments))
+  } catch (err) {
+    log.error('Failed to save to localStorage:', err)
+  }
+}
+
+export function judgmentsToJson(judgments: Judgments): string {
+  return JSON.stringify({ version: 1, judgments }, null, 2)
+}
+
+// TREC qrels: "<query id> 0 <doc id> <grade>" per line. The query goes in the
+// id column URI-encoded so it survives whitespace splitting.
+export function judgmentsToQrels(judgments: Judgments): string {
+  const lines: string[] = []
+  for (const [query, grades] of Object.entries(judgments)) {
+    for (const [docId, grade] of Object.entries(grades)) {
+      lines.push(`${encodeURIComponent(query)} 0 ${docId} ${grade}`)
+    }
+  }
+  return lines.length > 0 ? lines.join('\n') + '\n' : ''
+}
+
+export function parseQrels(text: string): Judgments {
+  const judgments: Judgments = {}
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim()
+    if (!trimmed) return
+    const columns = trimmed.split(/\s+/)
+    const grade = Number(columns[3])
+    if (columns.length !== 4 || !isGrade(grade)) {
+      throw new Error(`Invalid qrels line ${index + 1}: "${trimmed}"`)
+    }
+    let query: string
+    try {
+      query = normalizeQuery(decodeURIComponent(columns[0]))
+    } catch {
+      throw new Error(`Invalid query id on qrels line ${index + 1}: "${columns[0]}"`)
+    }
+    judgments[query] = { ...judgments[query], [columns[2]]: grade }
+  })
+  return judgments
+}
+
+// Accepts the JSON export (or a bare query -> grades object) and TREC qrels
+export function parseJudgmentsFile(text: string): Judgments {
+  const trimmed = text.trim()
+  if (trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed)
+    return sanitize('judgments' in parsed ? parsed.judgments : parsed)
+  }
+  return parseQrels(trimmed)
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import {
+  isSuspectedColdStart,
+  latencySegments,
+  percentile,
+  serverTimeMs,
+  summarizeLatency,
+  unaccountedMs,
+  type LatencySample
+} from '@/lib/latency'
+
+const sample = (took: LatencySample['took'], clientTime: number): LatencySample => ({
+  timestamp: 0,
+  query: 'q',
+  took,
+  clientTime
+})
+
+describe('serverTimeMs', () => {
+  it('uses the reported total', () => {
+    expect(serverTimeMs({ total: 0.05, search: 0.01 })).toBeCloseTo(50)
+  })
+
+  it('falls back to the phase sum when total is missing or smaller', () => {
+    expect(serverTimeMs({ search: 0.01, fetch: 0.005 })).toBeCloseTo(15)
+  })
+})
+
+describe('latencySegments', () => {
+  it('lists reported phases in order followed by unaccounted time', () => {
+    const segments = latencySegments({ total: 0.03, fetch: 0.01, request: 0.02 }, 100)
+    expect(segments.map((s) => s.key)).toEqual(['request', 'fetch', 'unaccounted'])
+    expect(segments[2].ms).toBeCloseTo(70)
+  })
+
+  it('never reports negative unaccounted time', () => {
+    expect(unaccountedMs({ total: 0.2 }, 100)).toBe(0)
+  })
+})
+
+describe('percentile', () => {
+  it('uses nearest rank', () => {
+    const values = [5, 1, 4, 2, 3]
+    expect(percentile(values, 50)).toBe(3)
+    expect(percentile(values, 95)).toBe(5)
+    expect(percentile(values, 0)).toBe(1)
+  })
+
+  it('is zero for no values', () => {
+    expect(percentile([], 50)).toBe(0)
+  })
+})
+
+describe('summarizeLatency', () => {
+  it('summarizes phases, unaccounted and client time', () => {
+    const summary = summarizeLatency([sample({ total: 0.01, search: 0.01 }, 30), sample({ total: 0.02, search: 0.02 }, 50)])
+    const search = summary.find((row) => row.key === 'search')
+    const client = summary.find((row) => row.key === 'client')
+    expect(search?.p50).toBeCloseTo(10)
+    expect(search?.max).toBeCloseTo(20)
+    expect(client?.p95).toBe(50)
+    expect(summary.find((row) => row.key === 'unaccounted')?.p50).toBeCloseTo(20)
+  })
+})
+
+describe('isSuspectedColdStart', () => {
+  const warm = [sample({ total: 0.01 }, 40), sample({ total: 0.01 }, 45), sample({ total: 0.01 }, 50)]
+
+  it('flags a slow index open', () => {
+    const cold = sample({ total: 0.2, open: 0.15 }, 250)
+    expect(isSuspectedColdStart(cold, [...warm, cold])).toBe(true)
+  })
+
+  it('flags client overhead far above the session median', () => {
+    const cold = sample({ total: 0.01 }, 1500)
+    expect(isSuspectedColdStart(cold, [...warm, cold])).toBe(true)
+  })
+
+  it('does not flag warm requests or a lone first request', () => {
+    expect(isSuspectedColdStart(warm[0], warm)).toBe(false)
+    const first = sample({ total: 0.01 }, 1500)
+    expect(isSuspectedColdStart(first, [first])).toBe(false)
+  })
+})
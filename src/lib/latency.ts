@@ -0,0 +1,109 @@
+// Latency breakdown of search requests and per-session statistics
+import type { TimingBreakdown } from '@/lib/types'
+
+export type PhaseKey = Exclude<keyof TimingBreakdown, 'total'>
+
+export interface PhaseDefinition {
+  key: PhaseKey
+  label: string
+  description: string
+}
+
+// Server phases in execution order
+export const PHASES: PhaseDefinition[] = [
+  { key: 'open', label: 'Open', description: 'Lucene index open' },
+  { key: 'request', label: 'Request', description: 'Request building time, includes running the embedding model' },
+  { key: 'search', label: 'Search', description: 'Doing actual search over documents' },
+  { key: 'rerank', label: 'Rerank', description: 'Post-search reranking' },
+  { key: 'agg', label: 'Agg', description: 'Facet aggregations' },
+  { key: 'fetch', label: 'Fetch', description: 'Loading document fields' }
+]
+
+export type SegmentKey = PhaseKey | 'unaccounted'
+
+export interface LatencySegment {
+  key: SegmentKey
+  label: string
+  ms: number
+}
+
+export const UNACCOUNTED_LABEL = 'Unaccounted (network/init)'
+
+// Server time in ms: the reported total, or the phase sum if total is missing
+export function serverTimeMs(took: TimingBreakdown): number {
+  const phaseSum = PHASES.reduce((sum, phase) => sum + (took[phase.key] ?? 0), 0)
+  return Math.max(took.total ?? 0, phaseSum) * 1000
+}
+
+// Client time not covered by server processing: networking, TLS, Lambda init
+export function unaccountedMs(took: TimingBreakdown, clientTime: number): number {
+  return Math.max(0, clientTime - serverTimeMs(took))
+}
+
+// Waterfall segments in order; phases the server didn't report are skipped
+export function latencySegments(took: TimingBreakdown, clientTime: number): LatencySegment[] {
+  const segments: LatencySegment[] = PHASES.filter((phase) => took[phase.key] !== undefined).map((phase) => ({
+    key: phase.key,
+    label: phase.label,
+    ms: (took[phase.key] ?? 0) * 1000
+  }))
+  segments.push({ key: 'unaccounted', label: UNACCOUNTED_LABEL, ms: unaccountedMs(took, clientTime) })
+  return segments
+}
+
+export interface LatencySample {
+  timestamp: number
+  query: string
+  took: TimingBreakdown
+  clientTime: number
+}
+
+// Nearest-rank percentile, p in [0, 100]
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))]
+}
+
+export interface PhaseSummary {
+  key: SegmentKey | 'client'
+  label: string
+  p50: number
+  p95: number
+  max: number
+}
+
+function summarize(key: PhaseSummary['key'], label: string, values: number[]): PhaseSummary {
+  return { key, label, p50: percentile(values, 50), p95: percentile(values, 95), max: Math.max(0, ...values) }
+}
+
+// p50/p95/max in ms per phase, plus unaccounted and total client time
+export function summarizeLatency(samples: LatencySample[]): PhaseSummary[] {
+  const phases = PHASES.map((phase) => {
+    const values = samples
+      .filter((s) => s.took[phase.key] !== undefined)
+      .map((s) => (s.took[phase.key] ?? 0) * 1000)
+    return summarize(phase.key, phase.label, values)
+  })
+  return [
+    ...phases,
+    summarize('unaccounted', UNACCOUNTED_LABEL, samples.map((s) => unaccountedMs(s.took, s.clientTime))),
+    summarize('client', 'Client total', samples.map((s) => s.clientTime))
+  ]
+}
+
+// A sample looks like a cold start when the index open is slow, or when client
+// overhead is well above what the rest of the session has seen
+export const COLD_OPEN_MS = 100
+export const COLD_OVERHEAD_FACTOR = 3
+export const COLD_OVERHEAD_MIN_MS = 200
+
+export function isSuspectedColdStart(sample: LatencySample, history: LatencySample[]): boolean {
+  if ((sample.took.open ?? 0) * 1000 >= COLD_OPEN_MS) return true
+
+  const overhead = unaccountedMs(sample.took, sample.clientTime)
+  const others = history.filter((s) => s !== sample).map((s) => unaccountedMs(s.took, s.clientTime))
+  if (others.length === 0) return false
+  return overhead >= COLD_OVERHEAD_MIN_MS && overhead >= COLD_OVERHEAD_FACTOR * percentile(others, 50)
+}
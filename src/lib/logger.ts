@@ -0,0 +1,62 @@
+// Leveled console logging, silent by default in production builds
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent']
+
+const STORAGE_KEY = 'lambda-demo-ui:log-level'
+
+function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel)
+}
+
+// localStorage override, then VITE_LOG_LEVEL, then debug in dev / silent in builds
+function initialLevel(): LogLevel {
+  try {
+    const stored = globalThis.localStorage?.getItem(STORAGE_KEY)
+    if (isLogLevel(stored)) return stored
+  } catch {
+    // storage unavailable
+  }
+  const configured = import.meta.env.VITE_LOG_LEVEL
+  if (isLogLevel(configured)) return configured
+  return import.meta.env.DEV ? 'debug' : 'silent'
+}
+
+let currentLevel: LogLevel = initialLevel()
+
+export function getLogLevel(): LogLevel {
+  return currentLevel
+}
+
+// Changes the level for this session and remembers it in localStorage
+export function setLogLevel(level: LogLevel) {
+  currentLevel = level
+  try {
+    globalThis.localStorage?.setItem(STORAGE_KEY, level)
+  } catch {
+    // storage unavailable, the level still applies to this session
+  }
+}
+
+function enabled(level: Exclude<LogLevel, 'silent'>): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(currentLevel)
+}
+
+export interface Logger {
+  debug: (message: string, ...data: unknown[]) => void
+  info: (message: string, ...data: unknown[]) => void
+  warn: (message: string, ...data: unknown[]) => void
+  error: (message: string, ...data: unknown[]) => void
+}
+
+// Logger whose messages are prefixed with [scope]
+export function createLogger(scope: string): Logger {
+  const prefix = `[${scope}]`
+  return {
+    debug: (message, ...data) => enabled('debug') && console.debug(prefix, message, ...data),
+    info: (message, ...data) => enabled('info') && console.info(prefix, message, ...data),
+    warn: (message, ...data) => enabled('warn') && console.warn(prefix, message, ...data),
+    error: (message, ...data) => enabled('error') && console.error(prefix, message, ...data)
+  }
+}
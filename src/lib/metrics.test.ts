@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { evaluate, ndcgAtK, precisionAtK, reciprocalRank } from '@/lib/metrics'
+import type { Grade } from '@/lib/judgments'
+
+const grades: Record<string, Grade> = { a: 3, b: 2, c: 0, d: 1 }
+
+describe('ndcgAtK', () => {
+  it('is 1 for the ideal ordering', () => {
+    expect(ndcgAtK(['a', 'b', 'd', 'c'], grades, 4)).toBeCloseTo(1)
+  })
+
+  it('penalizes relevant documents ranked low', () => {
+    // DCG = (2^2-1)/log2(2) + (2^3-1)/log2(3), IDCG = (2^3-1)/log2(2) + (2^2-1)/log2(3)
+    const expected = (3 + 7 / Math.log2(3)) / (7 + 3 / Math.log2(3))
+    expect(ndcgAtK(['b', 'a'], grades, 2)).toBeCloseTo(expected)
+  })
+
+  it('treats unjudged documents as irrelevant and is 0 without relevant judgments', () => {
+    expect(ndcgAtK(['x', 'y'], grades, 2)).toBe(0)
+    expect(ndcgAtK(['a'], { a: 0 }, 1)).toBe(0)
+  })
+})
+
+describe('reciprocalRank and precisionAtK', () => {
+  it('uses the first document graded 1 or higher', () => {
+    expect(reciprocalRank(['c', 'x', 'd'], grades)).toBeCloseTo(1 / 3)
+    expect(reciprocalRank(['c', 'x'], grades)).toBe(0)
+  })
+
+  it('divides relevant hits in the top k by k', () => {
+    expect(precisionAtK(['a', 'c', 'd', 'x'], grades, 4)).toBe(0.5)
+    expect(precisionAtK(['a'], grades, 4)).toBe(0.25)
+  })
+})
+
+describe('evaluate', () => {
+  it('averages metrics over queries and skips failed ones', async () => {
+    const rankings: Record<string, string[]> = { rome: ['a', 'b'], paris: ['c', 'd'] }
+    const result = await evaluate(
+      { rome: { a: 1 }, paris: { d: 1 }, berlin: { e: 1 } },
+      async (query) => {
+        if (!(query in rankings)) throw new Error('Search request failed')
+        return rankings[query]
+      },
+      2
+    )
+    expect(result.queries.map((q) => [q.query, q.rr])).toEqual([
+      ['rome', 1],
+      ['paris', 0.5],
+      ['berlin', 0]
+    ])
+    expect(result.queries[2].error).toBe('Search request failed')
+    expect(result.mrr).toBeCloseTo(0.75)
+    expect(result.meanPrecision).toBeCloseTo(0.5)
+    expect(result.queries[0].unjudged).toBe(1)
+  })
+})
@@ -0,0 +1,100 @@
+// Offline ranking metrics over graded judgments
+import { fetchSearchResults } from '@/lib/api'
+import type { Grade, Judgments } from '@/lib/judgments'
+import type { RetrievalConfig } from '@/lib/retrieval'
+
+// Grades at or above this count as relevant for MRR and precision
+export const RELEVANT_GRADE = 1
+
+// Unjudged documents count as grade 0
+function gradeOf(grades: Record<string, Grade>, docId: string): number {
+  return grades[docId] ?? 0
+}
+
+function dcg(gains: number[]): number {
+  return gains.reduce((sum, grade, index) => sum + (2 ** grade - 1) / Math.log2(index + 2), 0)
+}
+
+export function ndcgAtK(rankedIds: string[], grades: Record<string, Grade>, k: number): number {
+  const actual = dcg(rankedIds.slice(0, k).map((id) => gradeOf(grades, id)))
+  const ideal = dcg(
+    Object.values(grades)
+      .sort((a, b) => b - a)
+      .slice(0, k)
+  )
+  return ideal === 0 ? 0 : actual / ideal
+}
+
+export function reciprocalRank(rankedIds: string[], grades: Record<string, Grade>): number {
+  const index = rankedIds.findIndex((id) => gradeOf(grades, id) >= RELEVANT_GRADE)
+  return index < 0 ? 0 : 1 / (index + 1)
+}
+
+export function precisionAtK(rankedIds: string[], grades: Record<string, Grade>, k: number): number {
+  if (k <= 0) return 0
+  const relevant = rankedIds.slice(0, k).filter((id) => gradeOf(grades, id) >= RELEVANT_GRADE).length
+  return relevant / k
+}
+
+export interface QueryMetrics {
+  query: string
+  ndcg: number
+  rr: number
+  precision: number
+  // Retrieved documents in the top k without a judgment
+  unjudged: number
+  error?: string
+}
+
+export interface EvaluationResult {
+  k: number
+  queries: QueryMetrics[]
+  // Means over queries that were evaluated without errors
+  meanNdcg: number
+  mrr: number
+  meanPrecision: number
+}
+
+export type RankingFn = (query: string, k: number) => Promise<string[]>
+
+// Ranks through the search API with the given retrieval config
+export function searchRanking(config: RetrievalConfig): RankingFn {
+  return async (query, k) => (await fetchSearchResults(query, config, { size: k })).hits.map((hit) => hit._id)
+}
+
+const mean = (values: number[]) => (values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length)
+
+// Runs every judged query through `rank` in turn and scores the top k
+export async function evaluate(judgments: Judgments, rank: RankingFn, k: number): Promise<EvaluationResult> {
+  const queries: QueryMetrics[] = []
+  for (const [query, grades] of Object.entries(judgments)) {
+    try {
+      const ids = await rank(query, k)
+      queries.push({
+        query,
+        ndcg: ndcgAtK(ids, grades, k),
+        rr: reciprocalRank(ids.slice(0, k), grades),
+        precision: precisionAtK(ids, grades, k),
+        unjudged: ids.slice(0, k).filter((id) => grades[id] === undefined).length
+      })
+    } catch (err) {
+      queries.push({
+        query,
+        ndcg: 0,
+        rr: 0,
+        precision: 0,
+        unjudged: 0,
+        error: err instanceof Error ? err.message : String(err)
+      })
+    }
+  }
+
+  const scored = queries.filter((q) => q.error === undefined)
+  return {
+    k,
+    queries,
+    meanNdcg: mean(scored.map((q) => q.ndcg)),
+    mrr: mean(scored.map((q) => q.rr)),
+    meanPrecision: mean(scored.map((q) => q.precision))
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { PAGE_SIZE, hasMorePages, mergeHits, pageOffset } from '@/lib/pagination'
+import type { SearchHit } from '@/lib/types'
+
+const hits = (...ids: string[]): SearchHit[] => ids.map((_id) => ({ _id, _score: 1 }))
+const page = (start: number, count: number) => hits(...Array.from({ length: count }, (_, i) => `doc-${start + i}`))
+
+describe('pageOffset', () => {
+  it('starts page 1 at 0 and each next page a page further', () => {
+    expect(pageOffset(1)).toBe(0)
+    expect(pageOffset(2)).toBe(PAGE_SIZE)
+    expect(pageOffset(3)).toBe(2 * PAGE_SIZE)
+  })
+})
+
+describe('mergeHits', () => {
+  it('appends a page after the loaded hits', () => {
+    expect(mergeHits(hits('a', 'b'), hits('c', 'd')).map((hit) => hit._id)).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('drops ids already loaded from an earlier page, keeping the earlier rank', () => {
+    const existing = hits('a', 'b', 'c')
+    const merged = mergeHits(existing, [{ _id: 'c', _score: 0.1 }, ...hits('d', 'a', 'e')])
+    expect(merged.map((hit) => hit._id)).toEqual(['a', 'b', 'c', 'd', 'e'])
+    expect(merged[2]).toBe(existing[2])
+  })
+
+  it('drops ids repeated within the incoming page', () => {
+    expect(mergeHits([], hits('a', 'a', 'b')).map((hit) => hit._id)).toEqual(['a', 'b'])
+  })
+})
+
+describe('hasMorePages', () => {
+  it('stops after a short last page', () => {
+    expect(hasMorePages(page(1, PAGE_SIZE - 1))).toBe(false)
+    expect(hasMorePages([])).toBe(false)
+  })
+
+  it('expects more after an exactly full page', () => {
+    expect(hasMorePages(page(1, PAGE_SIZE))).toBe(true)
+  })
+
+  it('compares against the requested size when several pages are fetched at once', () => {
+    const requested = 3 * PAGE_SIZE
+    expect(hasMorePages(page(1, 2 * PAGE_SIZE), requested)).toBe(false)
+    expect(hasMorePages(page(1, requested - 1), requested)).toBe(false)
+    expect(hasMorePages(page(1, requested), requested)).toBe(true)
+  })
+})
@@ -0,0 +1,26 @@
+// Paging over search results with from/size offsets
+import type { SearchHit } from '@/lib/types'
+
+export const PAGE_SIZE = 10
+
+// Offset of the first hit on a 1-based page
+export function pageOffset(page: number): number {
+  return (page - 1) * PAGE_SIZE
+}
+
+// Append a page to the loaded hits, dropping any _id that is already listed.
+// Rank fusion can shift documents across page boundaries between requests.
+export function mergeHits(existing: SearchHit[], incoming: SearchHit[]): SearchHit[] {
+  const seen = new Set(existing.map((hit) => hit._id))
+  const fresh = incoming.filter((hit) => {
+    if (seen.has(hit._id)) return false
+    seen.add(hit._id)
+    return true
+  })
+  return [...existing, ...fresh]
+}
+
+// A full page suggests there are more hits after it
+export function hasMorePages(pageHits: SearchHit[], size: number = PAGE_SIZE): boolean {
+  return pageHits.length >= size
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { extractQueryText, parseRequestJson, validateSearchRequest } from '@/lib/queryDsl'
+import { DEFAULT_RETRIEVAL_CONFIG, buildSearchRequest } from '@/lib/retrieval'
+
+const errors = (body: unknown) =>
+  validateSearchRequest(body)
+    .filter((issue) => issue.severity === 'error')
+    .map((issue) => `${issue.path}: ${issue.message}`)
+
+describe('validateSearchRequest', () => {
+  it('accepts the requests the app builds', () => {
+    for (const mode of ['lexical', 'semantic', 'hybrid'] as const) {
+      expect(validateSearchRequest(buildSearchRequest('rome', { ...DEFAULT_RETRIEVAL_CONFIG, mode }))).toEqual([])
+    }
+  })
+
+  it('accepts match, bool, dis_max and knn queries', () => {
+    expect(errors({ query: { match: { title: 'rome' } } })).toEqual([])
+    expect(errors({ query: { match: { title: { query: 'rome', operator: 'and' } } } })).toEqual([])
+    expect(
+      errors({
+        query: {
+          bool: {
+            must: [{ match_all: {} }],
+            should: [{ dis_max: { queries: [{ match: { content: 'empire' } }], tie_breaker: 0.3 } }]
+          }
+        }
+      })
+    ).toEqual([])
+    expect(errors({ query: { knn: { field: 'content', query_text: 'rome', k: 10 } } })).toEqual([])
+  })
+
+  it('reports missing and mistyped fields with their path', () => {
+    expect(
+      errors({
+        query: { rrf: { retrieve: [{ multi_match: { query: 'rome' } }, { semantic: { field: 3, query: 'rome' } }] } },
+        size: 0
+      })
+    ).toEqual([
+      'query.rrf.retrieve[0].multi_match.fields: is required',
+      'query.rrf.retrieve[1].semantic.field: expected a non-empty string, got a number',
+      'size: must be at least 1, got 0'
+    ])
+  })
+
+  it('requires a query with exactly one type', () => {
+    expect(errors({ size: 10 })).toEqual(['query: is required'])
+    expect(errors({ query: { match: { title: 'a' }, semantic: { field: 'content', query: 'a' } } })).toEqual([
+      'query: a query must have exactly one type key (e.g. "match" or "rrf"), got 2'
+    ])
+    expect(errors([])).toEqual(['(request): expected an object, got an array'])
+  })
+
+  it('warns about unknown query types and options without blocking', () => {
+    const issues = validateSearchRequest({ query: { fuzzy: { title: 'rome' } }, highlight: true })
+    expect(issues.map((issue) => [issue.path, issue.severity])).toEqual([
+      ['query.fuzzy', 'warning'],
+      ['highlight', 'warning']
+    ])
+  })
+})
+
+describe('parseRequestJson', () => {
+  it('returns the parsed body', () => {
+    expect(parseRequestJson('{"size": 5}')).toEqual({ ok: true, body: { size: 5 } })
+  })
+
+  it('reports the line and column of invalid JSON', () => {
+    const result = parseRequestJson('{\n  "size": 5,\n}')
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.message).toMatch(/^Invalid JSON at line 3, column 1: /)
+  })
+})
+
+describe('extractQueryText', () => {
+  it('finds the first query string for highlighting', () => {
+    expect(extractQueryText(buildSearchRequest('roman empire', DEFAULT_RETRIEVAL_CONFIG))).toBe('roman empire')
+    expect(extractQueryText({ query: { match: { title: 'rome' } } })).toBe('rome')
+    expect(extractQueryText({ query: { knn: { field: 'content', query_text: 'paris' } } })).toBe('paris')
+    expect(extractQueryText({ query: { match_all: {} } })).toBe('')
+  })
+})
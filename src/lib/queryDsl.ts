@@ -0,0 +1,245 @@
+// Client-side validation of hand-written Nixiesearch search request bodies
+
+export interface ValidationIssue {
+  // JSON path of the offending value, e.g. "query.rrf.retrieve[1].semantic.field"
+  path: string
+  message: string
+  // Warnings are shown but do not block sending the request
+  severity: 'error' | 'warning'
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`
+}
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key
+
+function error(issues: ValidationIssue[], path: string, message: string) {
+  issues.push({ path, message, severity: 'error' })
+}
+
+function warn(issues: ValidationIssue[], path: string, message: string) {
+  issues.push({ path, message, severity: 'warning' })
+}
+
+function expectObject(issues: ValidationIssue[], value: unknown, path: string): value is Record<string, unknown> {
+  if (isObject(value)) return true
+  error(issues, path, `expected an object, got ${describe(value)}`)
+  return false
+}
+
+function checkString(issues: ValidationIssue[], obj: Record<string, unknown>, key: string, path: string, required = false) {
+  if (obj[key] === undefined) {
+    if (required) error(issues, join(path, key), 'is required')
+  } else if (typeof obj[key] !== 'string' || obj[key] === '') {
+    error(issues, join(path, key), `expected a non-empty string, got ${describe(obj[key])}`)
+  }
+}
+
+function checkNumber(issues: ValidationIssue[], obj: Record<string, unknown>, key: string, path: string, { min = -Infinity, integer = false } = {}) {
+  const value = obj[key]
+  if (value === undefined) return
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    error(issues, join(path, key), `expected a number, got ${describe(value)}`)
+  } else if (integer && !Number.isInteger(value)) {
+    error(issues, join(path, key), `expected a whole number, got ${value}`)
+  } else if (value < min) {
+    error(issues, join(path, key), `must be at least ${min}, got ${value}`)
+  }
+}
+
+function checkStringArray(issues: ValidationIssue[], obj: Record<string, unknown>, key: string, path: string, required = false) {
+  const value = obj[key]
+  if (value === undefined) {
+    if (required) error(issues, join(path, key), 'is required')
+    return
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    error(issues, join(path, key), `expected a non-empty array of strings, got ${describe(value)}`)
+    return
+  }
+  value.forEach((item, i) => {
+    if (typeof item !== 'string') error(issues, join(join(path, key), i), `expected a string, got ${describe(item)}`)
+  })
+}
+
+function checkQueryArray(issues: ValidationIssue[], obj: Record<string, unknown>, key: string, path: string, required = false) {
+  const value = obj[key]
+  if (value === undefined) {
+    if (required) error(issues, join(path, key), 'is required')
+    return
+  }
+  if (!Array.isArray(value)) {
+    error(issues, join(path, key), `expected an array of queries, got ${describe(value)}`)
+    return
+  }
+  value.forEach((item, i) => checkQuery(issues, item, join(join(path, key), i)))
+}
+
+function unknownKeys(issues: ValidationIssue[], obj: Record<string, unknown>, known: string[], path: string) {
+  for (const key of Object.keys(obj)) {
+    if (!known.includes(key)) {
+      warn(issues, join(path, key), `unknown option "${key}", expected one of ${known.join(', ')}`)
+    }
+  }
+}
+
+function checkQuery(issues: ValidationIssue[], value: unknown, path: string) {
+  if (!expectObject(issues, value, path)) return
+  const types = Object.keys(value)
+  if (types.length !== 1) {
+    error(issues, path, `a query must have exactly one type key (e.g. "match" or "rrf"), got ${types.length}`)
+    return
+  }
+  const [type] = types
+  const check = QUERY_TYPES[type]
+  if (!check) {
+    warn(issues, join(path, type), `unknown query type "${type}", expected one of ${Object.keys(QUERY_TYPES).join(', ')}`)
+    return
+  }
+  const body = value[type]
+  const bodyPath = join(path, type)
+  if (expectObject(issues, body, bodyPath)) check(issues, body, bodyPath)
+}
+
+type QueryCheck = (issues: ValidationIssue[], body: Record<string, unknown>, path: string) => void
+
+// Shapes of the query types the demo index supports
+const QUERY_TYPES: Record<string, QueryCheck> = {
+  match_all: (issues, body, path) => unknownKeys(issues, body, [], path),
+  // {"match": {"title": "rome"}} or {"match": {"title": {"query": "rome", "operator": "and"}}}
+  match: (issues, body, path) => {
+    const fields = Object.keys(body)
+    if (fields.length !== 1) {
+      error(issues, path, `match takes exactly one field, got ${fields.length}`)
+      return
+    }
+    const fieldPath = join(path, fields[0])
+    const spec = body[fields[0]]
+    if (typeof spec === 'string') return
+    if (!isObject(spec)) {
+      error(issues, fieldPath, `expected a query string or {"query": ...}, got ${describe(spec)}`)
+      return
+    }
+    checkString(issues, spec, 'query', fieldPath, true)
+    if (spec.operator !== undefined && spec.operator !== 'and' && spec.operator !== 'or') {
+      error(issues, join(fieldPath, 'operator'), 'expected "and" or "or"')
+    }
+    unknownKeys(issues, spec, ['query', 'operator'], fieldPath)
+  },
+  multi_match: (issues, body, path) => {
+    checkString(issues, body, 'query', path, true)
+    checkStringArray(issues, body, 'fields', path, true)
+    checkString(issues, body, 'type', path)
+    unknownKeys(issues, body, ['query', 'fields', 'type', 'operator'], path)
+  },
+  semantic: (issues, body, path) => {
+    checkString(issues, body, 'field', path, true)
+    checkString(issues, body, 'query', path, true)
+    checkNumber(issues, body, 'k', path, { min: 1, integer: true })
+    unknownKeys(issues, body, ['field', 'query', 'k', 'num_candidates'], path)
+  },
+  knn: (issues, body, path) => {
+    checkString(issues, body, 'field', path, true)
+    if (body.query_text === undefined && body.query_vector === undefined) {
+      error(issues, path, 'knn needs either "query_text" or "query_vector"')
+    }
+    checkString(issues, body, 'query_text', path)
+    if (body.query_vector !== undefined && !(Array.isArray(body.query_vector) && body.query_vector.every((x) => typeof x === 'number'))) {
+      error(issues, join(path, 'query_vector'), 'expected an array of numbers')
+    }
+    checkNumber(issues, body, 'k', path, { min: 1, integer: true })
+    unknownKeys(issues, body, ['field', 'query_text', 'query_vector', 'k', 'num_candidates'], path)
+  },
+  bool: (issues, body, path) => {
+    const clauses = ['must', 'should', 'must_not', 'filter']
+    if (!clauses.some((clause) => body[clause] !== undefined)) {
+      error(issues, path, `bool needs at least one of ${clauses.join(', ')}`)
+    }
+    clauses.forEach((clause) => checkQueryArray(issues, body, clause, path))
+    unknownKeys(issues, body, clauses, path)
+  },
+  dis_max: (issues, body, path) => {
+    checkQueryArray(issues, body, 'queries', path, true)
+    checkNumber(issues, body, 'tie_breaker', path, { min: 0 })
+    unknownKeys(issues, body, ['queries', 'tie_breaker'], path)
+  },
+  rrf: (issues, body, path) => {
+    checkQueryArray(issues, body, 'retrieve', path, true)
+    if (Array.isArray(body.retrieve) && body.retrieve.length < 2) {
+      warn(issues, join(path, 'retrieve'), `rrf fuses two or more retrievers, got ${body.retrieve.length}`)
+    }
+    checkNumber(issues, body, 'rank_constant', path, { min: 1 })
+    checkNumber(issues, body, 'rank_window_size', path, { min: 1, integer: true })
+    unknownKeys(issues, body, ['retrieve', 'rank_constant', 'rank_window_size'], path)
+  }
+}
+
+const TOP_LEVEL_KEYS = ['query', 'filters', 'aggs', 'fields', 'from', 'size']
+
+// Checks the request shape; the backend remains the authority on semantics
+export function validateSearchRequest(body: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  if (!expectObject(issues, body, '(request)')) return issues
+
+  if (body.query === undefined) {
+    error(issues, 'query', 'is required')
+  } else {
+    checkQuery(issues, body.query, 'query')
+  }
+  if (body.filters !== undefined) expectObject(issues, body.filters, 'filters')
+  if (body.aggs !== undefined) expectObject(issues, body.aggs, 'aggs')
+  checkStringArray(issues, body, 'fields', '')
+  checkNumber(issues, body, 'from', '', { min: 0, integer: true })
+  checkNumber(issues, body, 'size', '', { min: 1, integer: true })
+  unknownKeys(issues, body, TOP_LEVEL_KEYS, '')
+  return issues
+}
+
+export type ParsedRequest = { ok: true; body: unknown } | { ok: false; message: string }
+
+// JSON.parse with the error position turned into line and column
+export function parseRequestJson(text: string): ParsedRequest {
+  try {
+    return { ok: true, body: JSON.parse(text) }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    const position = /position (\d+)/.exec(message)
+    if (!position) return { ok: false, message: `Invalid JSON: ${message}` }
+    const before = text.slice(0, Number(position[1])).split('\n')
+    const line = before.length
+    const column = before[before.length - 1].length + 1
+    return { ok: false, message: `Invalid JSON at line ${line}, column ${column}: ${message.replace(/ in JSON at position \d+.*$/, '')}` }
+  }
+}
+
+// First free-text query string in the request, used to highlight results
+export function extractQueryText(body: unknown): string {
+  if (Array.isArray(body)) {
+    for (const item of body) {
+      const text = extractQueryText(item)
+      if (text) return text
+    }
+  } else if (isObject(body)) {
+    for (const [key, value] of Object.entries(body)) {
+      if ((key === 'query' || key === 'query_text') && typeof value === 'string') return value
+    }
+    for (const [key, value] of Object.entries(body)) {
+      if (key === 'filters' || key === 'aggs') continue
+      // {"match": {"title": "rome"}}
+      if (key === 'match' && isObject(value)) {
+        const spec = Object.values(value)[0]
+        if (typeof spec === 'string') return spec
+      }
+      const text = extractQueryText(value)
+      if (text) return text
+    }
+  }
+  return ''
+}
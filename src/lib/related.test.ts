@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { leadText, relatedQuery, withoutDocument } from '@/lib/related'
+import { parseDocumentParam, withDocumentParam } from '@/lib/urlState'
+import type { SearchHit } from '@/lib/types'
+
+const FIELDS = { titleField: 'title', contentField: 'content' }
+
+describe('related articles', () => {
+  it('takes the first paragraph as the lead', () => {
+    expect(leadText('  Rome is a city.\n\nIt has   seven hills.')).toBe('Rome is a city.')
+  })
+
+  it('cuts a long lead after a sentence, or else a word', () => {
+    const content = 'Rome is the capital of Italy. It is also the capital of the Lazio region and the most populated city.'
+    expect(leadText(content, 50)).toBe('Rome is the capital of Italy.')
+    expect(leadText('aaaa bbbb cccc dddd', 12)).toBe('aaaa bbbb')
+  })
+
+  it('queries with the title and lead', () => {
+    const hit: SearchHit = { _id: 'rome', _score: 1, title: 'Rome', content: 'Capital of Italy.\n\nHistory...' }
+    expect(relatedQuery(hit, FIELDS)).toBe('Rome. Capital of Italy.')
+    expect(relatedQuery({ _id: 'rome', _score: 1, title: 'Rome' }, FIELDS)).toBe('Rome')
+  })
+
+  it('excludes the article itself', () => {
+    const hits = ['rome', 'milan', 'naples', 'turin'].map((id): SearchHit => ({ _id: id, _score: 1 }))
+    expect(withoutDocument(hits, 'rome', 2).map((hit) => hit._id)).toEqual(['milan', 'naples'])
+  })
+})
+
+describe('document URL param', () => {
+  it('adds, replaces and removes doc while keeping the search', () => {
+    const url = withDocumentParam('/lambda-demo-ui/?q=rome&mode=semantic', 'Rome (city)')
+    expect(url).toBe('/lambda-demo-ui/?q=rome&mode=semantic&doc=Rome+%28city%29')
+    expect(parseDocumentParam(url.split('?')[1])).toBe('Rome (city)')
+    expect(withDocumentParam(url, 'milan')).toBe('/lambda-demo-ui/?q=rome&mode=semantic&doc=milan')
+    expect(withDocumentParam(url, null)).toBe('/lambda-demo-ui/?q=rome&mode=semantic')
+  })
+
+  it('works without a search', () => {
+    expect(withDocumentParam('/lambda-demo-ui/', 'rome')).toBe('/lambda-demo-ui/?doc=rome')
+    expect(withDocumentParam('/lambda-demo-ui/?doc=rome', null)).toBe('/lambda-demo-ui/')
+    expect(parseDocumentParam('?doc=')).toBeNull()
+  })
+})
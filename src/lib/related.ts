@@ -0,0 +1,41 @@
+// "More like this": related articles found by a semantic search for an
+// article's title and lead
+import { hitContent, hitTitle } from '@/lib/hits'
+import type { IndexConfig } from '@/lib/indexConfig'
+import { DEFAULT_RETRIEVAL_CONFIG, type RetrievalConfig } from '@/lib/retrieval'
+import type { SearchHit } from '@/lib/types'
+
+// Number of related articles shown
+export const RELATED_COUNT = 5
+
+// Indexes without a semantic field fall back to lexical retrieval
+export const RELATED_CONFIG: RetrievalConfig = { ...DEFAULT_RETRIEVAL_CONFIG, mode: 'semantic' }
+
+// Characters of content used as the lead
+const LEAD_LENGTH = 300
+
+// First paragraph of the content, cut after the last full sentence (or word)
+// within maxLength
+export function leadText(content: string, maxLength: number = LEAD_LENGTH): string {
+  const paragraph = content.trim().split(/\n\s*\n/)[0].replace(/\s+/g, ' ')
+  if (paragraph.length <= maxLength) return paragraph
+
+  const cut = paragraph.slice(0, maxLength)
+  const sentenceEnd = cut.search(/[.!?][^.!?]*$/)
+  if (sentenceEnd > maxLength / 2) return cut.slice(0, sentenceEnd + 1)
+  const wordEnd = cut.lastIndexOf(' ')
+  return wordEnd > 0 ? cut.slice(0, wordEnd) : cut
+}
+
+// The title and lead joined into one query; just the title without content
+export function relatedQuery(hit: SearchHit, config: Pick<IndexConfig, 'titleField' | 'contentField'>): string {
+  const lead = leadText(hitContent(hit, config))
+  const title = hitTitle(hit, config)
+  return lead ? `${title}. ${lead}` : title
+}
+
+// The article itself is the best match for its own text, so ask for one more
+// than needed and drop it
+export function withoutDocument(hits: SearchHit[], id: string, count: number = RELATED_COUNT): SearchHit[] {
+  return hits.filter((hit) => hit._id !== id).slice(0, count)
+}
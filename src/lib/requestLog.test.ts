@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearTraces, completeTrace, getTraces, startTrace, subscribeTraces, toCurl } from '@/lib/requestLog'
+
+describe('request traces', () => {
+  beforeEach(() => clearTraces())
+
+  it('keeps the most recent traces first and merges completion data', () => {
+    const first = startTrace('/a', 'POST', { q: 1 })
+    const second = startTrace('/b', 'POST', { q: 2 })
+    completeTrace(first, { status: 200, clientTime: 12 })
+
+    const traces = getTraces()
+    expect(traces.map((t) => t.id)).toEqual([second, first])
+    expect(traces[1]).toMatchObject({ url: '/a', status: 200, clientTime: 12 })
+  })
+
+  it('drops the oldest traces beyond the limit', () => {
+    for (let i = 0; i < 30; i++) startTrace(`/${i}`, 'POST', {})
+    expect(getTraces()).toHaveLength(25)
+    expect(getTraces()[24].url).toBe('/5')
+  })
+
+  it('notifies subscribers until they unsubscribe', () => {
+    const listener = vi.fn()
+    const unsubscribe = subscribeTraces(listener)
+    startTrace('/a', 'POST', {})
+    unsubscribe()
+    startTrace('/b', 'POST', {})
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('toCurl', () => {
+  it('resolves the URL and shell-quotes the body', () => {
+    const curl = toCurl({ url: '/v1/index/wiki/search', method: 'POST', body: { query: "rock 'n' roll" } }, 'https://example.com')
+    expect(curl).toBe(
+      [
+        "curl -X POST 'https://example.com/v1/index/wiki/search'",
+        "-H 'Content-Type: application/json'",
+        `-d '{"query":"rock '\\''n'\\'' roll"}'`
+      ].join(' \\\n  ')
+    )
+  })
+})
@@ -0,0 +1,70 @@
+// In-memory trace of recent search requests for the debug drawer
+import type { TimingBreakdown } from '@/lib/types'
+
+export interface RequestTrace {
+  id: number
+  timestamp: number
+  url: string
+  method: string
+  body: unknown
+  // Set once the request completes
+  status?: number
+  response?: unknown
+  took?: TimingBreakdown
+  clientTime?: number
+  error?: string
+}
+
+// Number of traces kept; older ones are dropped
+const MAX_TRACES = 25
+
+let traces: RequestTrace[] = []
+let nextId = 1
+const listeners = new Set<() => void>()
+
+function emit() {
+  listeners.forEach((listener) => listener())
+}
+
+// Starts a trace and returns its id for completeTrace
+export function startTrace(url: string, method: string, body: unknown): number {
+  const id = nextId++
+  traces = [{ id, timestamp: Date.now(), url, method, body }, ...traces].slice(0, MAX_TRACES)
+  emit()
+  return id
+}
+
+export function completeTrace(id: number, result: Partial<Omit<RequestTrace, 'id' | 'timestamp'>>) {
+  traces = traces.map((trace) => (trace.id === id ? { ...trace, ...result } : trace))
+  emit()
+}
+
+export function clearTraces() {
+  traces = []
+  emit()
+}
+
+// Most recent first; the array identity changes on every update
+export function getTraces(): RequestTrace[] {
+  return traces
+}
+
+export function subscribeTraces(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+// Shell-safe single quoting
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+// Equivalent curl command; relative URLs are resolved against `origin`
+export function toCurl(trace: Pick<RequestTrace, 'url' | 'method' | 'body'>, origin: string = window.location.origin): string {
+  const url = new URL(trace.url, origin).toString()
+  return [
+    `curl -X ${trace.method} ${shellQuote(url)}`,
+    `-H 'Content-Type: application/json'`,
+    `-d ${shellQuote(JSON.stringify(trace.body))}`
+  ].join(' \\\n  ')
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeSearchResponse, normalizeSuggestions } from '@/lib/responseSchema'
+
+describe('normalizeSearchResponse', () => {
+  it('passes a well-formed response through without warnings', () => {
+    const data = {
+      hits: [{ _id: 'a', _score: 0.5, title: 'Rome', _highlight: { title: ['<em>Rome</em>'] } }],
+      took: { total: 0.012, search: 0.008 },
+      aggs: { category: { buckets: [{ term: 'History', count: 3 }] } }
+    }
+    expect(normalizeSearchResponse(data)).toEqual({ ...data, warnings: [] })
+  })
+
+  it('defaults a missing _score and reports it once for all hits', () => {
+    const result = normalizeSearchResponse({
+      hits: [
+        { _id: 'a', title: 'Rome' },
+        { _id: 'b', _score: '1.5' },
+        { _id: 'c' }
+      ],
+      took: { total: 0.01 }
+    })
+    expect(result.hits.map((hit) => hit._score)).toEqual([0, 1.5, 0])
+    expect(result.hits[0].title).toBe('Rome')
+    expect(result.warnings).toEqual([
+      'hits[]._score: missing, shown as 0 (2 of 3 hits)',
+      'hits[]._score: a string, converted to a number (1 of 3 hits)'
+    ])
+  })
+
+  it('drops non-documents and fills missing ids', () => {
+    const result = normalizeSearchResponse({ hits: [null, { _score: 1 }, { _id: 7, _score: 1 }], took: {} })
+    expect(result.hits.map((hit) => hit._id)).toEqual(['#2', '7'])
+    expect(result.warnings).toHaveLength(2)
+  })
+
+  it('numbers missing ids from the request offset', () => {
+    const result = normalizeSearchResponse({ hits: [{ _score: 1 }, { _score: 1 }], took: {} }, 10)
+    expect(result.hits.map((hit) => hit._id)).toEqual(['#11', '#12'])
+  })
+
+  it('survives missing hits and took', () => {
+    expect(normalizeSearchResponse({})).toEqual({
+      hits: [],
+      took: {},
+      warnings: ['hits: missing, no results', 'took: missing, timings unavailable']
+    })
+    expect(normalizeSearchResponse('oops').hits).toEqual([])
+  })
+
+  it('reads a numeric took as milliseconds and ignores bad phases', () => {
+    expect(normalizeSearchResponse({ hits: [], took: 12 }).took).toEqual({ total: 0.012 })
+    const result = normalizeSearchResponse({ hits: [], took: { total: 0.02, search: 'slow' } })
+    expect(result.took).toEqual({ total: 0.02 })
+    expect(result.warnings).toEqual(['took.search: a string, ignored'])
+  })
+})
+
+describe('normalizeSuggestions', () => {
+  it('drops entries without text and defaults scores', () => {
+    expect(normalizeSuggestions({ suggestions: [{ text: 'rome', score: 2 }, { score: 1 }, { text: 'roma' }] })).toEqual({
+      suggestions: [
+        { text: 'rome', score: 2 },
+        { text: 'roma', score: 0 }
+      ],
+      warnings: ['suggestions[]: entry without text, dropped', 'suggestions[].score: missing, defaulted to 0']
+    })
+    expect(normalizeSuggestions(null).suggestions).toEqual([])
+  })
+})
@@ -0,0 +1,174 @@
+// Validation and normalization of Nixiesearch search and suggest responses
+import type { AggregationResult } from '@/lib/facets'
+import type { SearchHit, Suggestion, TimingBreakdown } from '@/lib/types'
+
+const TIMING_KEYS: (keyof TimingBreakdown)[] = ['total', 'open', 'request', 'search', 'agg', 'fetch', 'rerank']
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return 'missing'
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`
+}
+
+// Numbers, or numeric strings, that are finite
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined
+}
+
+// Problem message -> number of occurrences, so a problem repeated on every
+// hit is reported once
+type DriftReport = Map<string, number>
+
+function note(report: DriftReport, message: string) {
+  report.set(message, (report.get(message) ?? 0) + 1)
+}
+
+function warningsOf(report: DriftReport, hitCount: number): string[] {
+  return [...report].map(([message, count]) =>
+    message.startsWith('hits[].') && hitCount > 1 ? `${message} (${count} of ${hitCount} hits)` : message
+  )
+}
+
+function normalizeTook(raw: unknown, report: DriftReport): TimingBreakdown {
+  // Older Nixiesearch versions report took as a single number of milliseconds
+  if (typeof raw === 'number' && Number.isFinite(raw)) {
+    note(report, 'took: a number, read as total milliseconds')
+    return { total: raw / 1000 }
+  }
+  if (!isObject(raw)) {
+    note(report, `took: ${describe(raw)}, timings unavailable`)
+    return {}
+  }
+  const took: TimingBreakdown = {}
+  for (const key of TIMING_KEYS) {
+    if (raw[key] === undefined) continue
+    const value = toNumber(raw[key])
+    if (value === undefined) {
+      note(report, `took.${key}: ${describe(raw[key])}, ignored`)
+    } else {
+      took[key] = value
+    }
+  }
+  return took
+}
+
+function normalizeHighlight(raw: unknown, report: DriftReport): Record<string, string[]> | undefined {
+  if (raw === undefined) return undefined
+  if (!isObject(raw)) {
+    note(report, `hits[]._highlight: ${describe(raw)}, ignored`)
+    return undefined
+  }
+  const highlight: Record<string, string[]> = {}
+  for (const [field, fragments] of Object.entries(raw)) {
+    if (Array.isArray(fragments) && fragments.every((f) => typeof f === 'string')) {
+      highlight[field] = fragments
+    } else if (typeof fragments === 'string') {
+      highlight[field] = [fragments]
+    } else {
+      note(report, `hits[]._highlight.${field}: ${describe(fragments)}, ignored`)
+    }
+  }
+  return highlight
+}
+
+function normalizeHit(raw: unknown, position: number, report: DriftReport): SearchHit | null {
+  if (!isObject(raw)) {
+    note(report, `hits[]: ${describe(raw)} instead of a document, dropped`)
+    return null
+  }
+  const { _id, _score, _highlight, ...fields } = raw
+
+  let id: string
+  if (typeof _id === 'string' && _id !== '') {
+    id = _id
+  } else if (typeof _id === 'number') {
+    id = String(_id)
+  } else {
+    note(report, `hits[]._id: ${describe(_id)}, using the result position`)
+    id = `#${position}`
+  }
+
+  let score = toNumber(_score)
+  if (score === undefined) {
+    note(report, `hits[]._score: ${describe(_score)}, shown as 0`)
+    score = 0
+  } else if (typeof _score !== 'number') {
+    note(report, `hits[]._score: ${describe(_score)}, converted to a number`)
+  }
+
+  const highlight = normalizeHighlight(_highlight, report)
+  return { ...fields, _id: id, _score: score, ...(highlight && { _highlight: highlight }) }
+}
+
+function normalizeAggs(raw: unknown, report: DriftReport): Record<string, AggregationResult> | undefined {
+  if (raw === undefined || raw === null) return undefined
+  if (!isObject(raw)) {
+    note(report, `aggs: ${describe(raw)}, facets unavailable`)
+    return undefined
+  }
+  const aggs: Record<string, AggregationResult> = {}
+  for (const [name, agg] of Object.entries(raw)) {
+    if (isObject(agg) && Array.isArray(agg.buckets)) {
+      aggs[name] = { buckets: agg.buckets.filter((bucket) => isObject(bucket) && toNumber(bucket.count) !== undefined) }
+    } else {
+      note(report, `aggs.${name}: no buckets array, ignored`)
+    }
+  }
+  return aggs
+}
+
+export interface NormalizedSearchResponse {
+  hits: SearchHit[]
+  took: TimingBreakdown
+  aggs?: Record<string, AggregationResult>
+  // Human-readable schema drift, empty when the payload matched
+  warnings: string[]
+}
+
+// Fills safe defaults for anything missing or mistyped instead of throwing.
+// `from` is the request offset, so ids filled in from the result position stay
+// unique across pages.
+export function normalizeSearchResponse(data: unknown, from = 0): NormalizedSearchResponse {
+  const report: DriftReport = new Map()
+  if (!isObject(data)) {
+    note(report, `response: ${describe(data)} instead of an object, no results`)
+    return { hits: [], took: {}, warnings: warningsOf(report, 0) }
+  }
+
+  let hits: SearchHit[] = []
+  if (Array.isArray(data.hits)) {
+    hits = data.hits.map((hit, i) => normalizeHit(hit, from + i + 1, report)).filter((hit) => hit !== null)
+  } else {
+    note(report, `hits: ${describe(data.hits)}, no results`)
+  }
+
+  const took = normalizeTook(data.took, report)
+  const aggs = normalizeAggs(data.aggs, report)
+  return { hits, took, ...(aggs && { aggs }), warnings: warningsOf(report, Array.isArray(data.hits) ? data.hits.length : 0) }
+}
+
+// Suggestions without text are dropped; a missing score becomes 0
+export function normalizeSuggestions(data: unknown): { suggestions: Suggestion[]; warnings: string[] } {
+  const report: DriftReport = new Map()
+  const raw = isObject(data) ? data.suggestions : undefined
+  if (!Array.isArray(raw)) {
+    note(report, `suggestions: ${describe(raw)}, no suggestions`)
+    return { suggestions: [], warnings: warningsOf(report, 0) }
+  }
+  const suggestions: Suggestion[] = []
+  for (const item of raw) {
+    if (!isObject(item) || typeof item.text !== 'string') {
+      note(report, 'suggestions[]: entry without text, dropped')
+      continue
+    }
+    const score = toNumber(item.score)
+    if (score === undefined) note(report, `suggestions[].score: ${describe(item.score)}, defaulted to 0`)
+    suggestions.push({ text: item.text, score: score ?? 0 })
+  }
+  return { suggestions, warnings: warningsOf(report, 0) }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildResultExport,
+  resultsToCsv,
+  resultsToJson,
+  resultsToMarkdown,
+  serializeResults,
+  type ResultExport
+} from '@/lib/resultExport'
+import { DEFAULT_RETRIEVAL_CONFIG } from '@/lib/retrieval'
+
+const data: ResultExport = buildResultExport({
+  query: 'rome',
+  hits: [
+    { _id: 'rome', _score: 0.5, title: 'Rome', content: 'Rome is the capital of Italy.' },
+    { _id: 'a|b', _score: 0.25, title: 'Roman "Empire"', content: 'Line one\nline two, with | pipe' }
+  ],
+  config: DEFAULT_RETRIEVAL_CONFIG,
+  indexConfig: { titleField: 'title', contentField: 'content' },
+  request: { query: { match: { title: 'rome' } }, size: 10 },
+  took: { total: 0.012, search: 0.008 },
+  clientTime: 45.5,
+  exportedAt: new Date('2024-05-01T12:00:00Z')
+})
+
+describe('buildResultExport', () => {
+  it('ranks hits and keeps plain-text snippets', () => {
+    expect(data.results).toEqual([
+      { rank: 1, _id: 'rome', title: 'Rome', score: 0.5, snippet: 'Rome is the capital of Italy.' },
+      { rank: 2, _id: 'a|b', title: 'Roman "Empire"', score: 0.25, snippet: 'Line one\nline two, with | pipe' }
+    ])
+    expect(data.exportedAt).toBe('2024-05-01T12:00:00.000Z')
+  })
+})
+
+describe('result serializers', () => {
+  it('writes JSON that round-trips', () => {
+    expect(JSON.parse(resultsToJson(data))).toEqual(data)
+  })
+
+  it('writes one CSV row per result with timings and the request', () => {
+    const lines = resultsToCsv(data).trimEnd().split('\r\n')
+    expect(lines[0]).toBe(
+      'rank,_id,title,score,snippet,query,retrieval,client_ms,total_ms,open_ms,request_ms,search_ms,rerank_ms,agg_ms,fetch_ms,request'
+    )
+    expect(lines[1]).toContain('1,rome,Rome,0.5,Rome is the capital of Italy.,rome,')
+    expect(lines[1]).toContain(',45.500,12.000,,,8.000,,,,"{""query"":{""match"":{""title"":""rome""}},""size"":10}"')
+    // The quoted multi-line snippet keeps its line break inside the cell
+    expect(resultsToCsv(data)).toContain('"Roman ""Empire""",0.25,"Line one\nline two, with | pipe"')
+  })
+
+  it('writes a Markdown table with escaped cells and the request', () => {
+    const markdown = resultsToMarkdown(data)
+    expect(markdown).toContain('## Results for "rome"')
+    expect(markdown).toContain('- Timings: client 45.5ms, server 12.000ms, search 8.000ms')
+    expect(markdown).toContain('| 1 | rome | Rome | 0.5000 | Rome is the capital of Italy. |')
+    expect(markdown).toContain('| 2 | a\\|b | Roman "Empire" | 0.2500 | Line one line two, with \\| pipe |')
+    expect(markdown).toContain('```json\n{\n  "query"')
+  })
+
+  it('picks the serializer by format', () => {
+    expect(serializeResults(data, 'csv')).toBe(resultsToCsv(data))
+    expect(serializeResults(data, 'markdown')).toBe(resultsToMarkdown(data))
+  })
+})
@@ -0,0 +1,167 @@
+// Serializers for sharing the current result set as JSON, CSV or Markdown
+import { toCsv } from '@/lib/csv'
+import { highlightField } from '@/lib/highlight'
+import { hitContent, hitTitle } from '@/lib/hits'
+import type { IndexConfig } from '@/lib/indexConfig'
+import { PHASES } from '@/lib/latency'
+import { describeRetrievalConfig, type RetrievalConfig } from '@/lib/retrieval'
+import type { SearchHit, TimingBreakdown } from '@/lib/types'
+
+export type ExportFormat = 'json' | 'csv' | 'markdown'
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' }
+]
+
+// Characters of content in each exported snippet
+const SNIPPET_LENGTH = 300
+
+export interface ExportedResult {
+  rank: number
+  _id: string
+  title: string
+  score: number
+  snippet: string
+}
+
+export interface ResultExport {
+  query: string
+  // ISO timestamp of the export
+  exportedAt: string
+  // Readable summary of the retrieval config, e.g. "Hybrid (RRF) · k=60"
+  retrieval: string
+  // The search request body that produced the results
+  request: unknown
+  took: TimingBreakdown
+  clientTime: number
+  results: ExportedResult[]
+}
+
+export function buildResultExport({
+  query,
+  hits,
+  config,
+  indexConfig,
+  request,
+  took,
+  clientTime,
+  exportedAt = new Date()
+}: {
+  query: string
+  hits: SearchHit[]
+  config: RetrievalConfig
+  indexConfig: Pick<IndexConfig, 'titleField' | 'contentField'>
+  request: unknown
+  took: TimingBreakdown
+  clientTime: number
+  exportedAt?: Date
+}): ResultExport {
+  return {
+    query,
+    exportedAt: exportedAt.toISOString(),
+    retrieval: describeRetrievalConfig(config),
+    request,
+    took,
+    clientTime,
+    results: hits.map((hit, index) => ({
+      rank: index + 1,
+      _id: hit._id,
+      title: hitTitle(hit, indexConfig),
+      score: hit._score,
+      // The same passage the card shows, as plain text
+      snippet: highlightField(hitContent(hit, indexConfig), query, hit._highlight?.[indexConfig.contentField], SNIPPET_LENGTH)
+        .map((segment) => segment.text)
+        .join('')
+    }))
+  }
+}
+
+export function resultsToJson(data: ResultExport): string {
+  return JSON.stringify(data, null, 2)
+}
+
+const ms = (seconds: number | undefined) => (seconds === undefined ? undefined : (seconds * 1000).toFixed(3))
+
+// One row per result; the query, timings and request repeat on every row so
+// the file stands on its own in a spreadsheet
+export function resultsToCsv(data: ResultExport): string {
+  const headers = [
+    'rank',
+    '_id',
+    'title',
+    'score',
+    'snippet',
+    'query',
+    'retrieval',
+    'client_ms',
+    'total_ms',
+    ...PHASES.map((phase) => `${phase.key}_ms`),
+    'request'
+  ]
+  const request = JSON.stringify(data.request)
+  const rows = data.results.map((result) => [
+    result.rank,
+    result._id,
+    result.title,
+    result.score,
+    result.snippet,
+    data.query,
+    data.retrieval,
+    data.clientTime.toFixed(3),
+    ms(data.took.total),
+    ...PHASES.map((phase) => ms(data.took[phase.key])),
+    request
+  ])
+  return toCsv(headers, rows)
+}
+
+// Pipes would end a table cell and newlines the row
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\s*[\r\n]+\s*/g, ' ')
+}
+
+export function resultsToMarkdown(data: ResultExport): string {
+  const timings = [
+    `client ${data.clientTime.toFixed(1)}ms`,
+    ...(data.took.total !== undefined ? [`server ${ms(data.took.total)}ms`] : []),
+    ...PHASES.filter((phase) => data.took[phase.key] !== undefined).map(
+      (phase) => `${phase.label.toLowerCase()} ${ms(data.took[phase.key])}ms`
+    )
+  ]
+  const lines = [
+    `## Results for "${escapeMarkdownCell(data.query)}"`,
+    '',
+    `- Retrieval: ${data.retrieval}`,
+    `- Timings: ${timings.join(', ')}`,
+    `- Exported: ${data.exportedAt}`,
+    '',
+    '| Rank | _id | Title | Score | Snippet |',
+    '| ---: | --- | --- | ---: | --- |',
+    ...data.results.map(
+      (result) =>
+        `| ${result.rank} | ${escapeMarkdownCell(result._id)} | ${escapeMarkdownCell(result.title)} | ${result.score.toFixed(4)} | ${escapeMarkdownCell(result.snippet)} |`
+    ),
+    '',
+    '<details><summary>Request</summary>',
+    '',
+    '```json',
+    JSON.stringify(data.request, null, 2),
+    '```',
+    '',
+    '</details>'
+  ]
+  return lines.join('\n') + '\n'
+}
+
+export function serializeResults(data: ResultExport, format: ExportFormat): string {
+  switch (format) {
+    case 'json':
+      return resultsToJson(data)
+    case 'csv':
+      return resultsToCsv(data)
+    case 'markdown':
+      return resultsToMarkdown(data)
+  }
+}
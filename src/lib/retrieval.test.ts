@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_INDEX_CONFIG } from '@/lib/indexConfig'
+import { PAGE_SIZE } from '@/lib/pagination'
+import {
+  DEFAULT_RETRIEVAL_CONFIG,
+  buildSearchQuery,
+  buildSearchRequest,
+  describeRetrievalConfig,
+  type RetrievalConfig
+} from '@/lib/retrieval'
+import type { FacetDefinition } from '@/lib/facets'
+
+const config = (overrides: Partial<RetrievalConfig>): RetrievalConfig => ({ ...DEFAULT_RETRIEVAL_CONFIG, ...overrides })
+
+describe('buildSearchQuery', () => {
+  it('builds a multi_match over title and content for lexical mode', () => {
+    expect(buildSearchQuery('rome', config({ mode: 'lexical' }))).toEqual({
+      multi_match: { query: 'rome', fields: ['title', 'content'] }
+    })
+  })
+
+  it('adds boosts other than 1 to the lexical fields', () => {
+    expect(buildSearchQuery('rome', config({ mode: 'lexical', titleBoost: 3, contentBoost: 0.5 }))).toEqual({
+      multi_match: { query: 'rome', fields: ['title^3', 'content^0.5'] }
+    })
+  })
+
+  it('lists a field once when title and content are the same', () => {
+    const indexConfig = { ...DEFAULT_INDEX_CONFIG, titleField: 'body', contentField: 'body' }
+    expect(buildSearchQuery('rome', config({ mode: 'lexical', titleBoost: 2 }), indexConfig)).toEqual({
+      multi_match: { query: 'rome', fields: ['body^2'] }
+    })
+  })
+
+  it('queries the semantic field for semantic mode', () => {
+    expect(buildSearchQuery('rome', config({ mode: 'semantic' }))).toEqual({
+      semantic: { field: 'content', query: 'rome' }
+    })
+  })
+
+  it('fuses lexical and semantic retrieval with RRF for hybrid mode', () => {
+    expect(buildSearchQuery('rome', config({ mode: 'hybrid', rankConstant: 30, windowSize: 50 }))).toEqual({
+      rrf: {
+        retrieve: [
+          { multi_match: { query: 'rome', fields: ['title', 'content'] } },
+          { semantic: { field: 'content', query: 'rome' } }
+        ],
+        rank_constant: 30,
+        rank_window_size: 50
+      }
+    })
+  })
+})
+
+describe('buildSearchRequest', () => {
+  it('requests the first page of stored fields by default', () => {
+    const request = buildSearchRequest('rome', DEFAULT_RETRIEVAL_CONFIG)
+    expect(request).toMatchObject({ fields: ['_id', 'title', 'content'], from: 0, size: PAGE_SIZE })
+    expect(request).not.toHaveProperty('filters')
+    expect(request).not.toHaveProperty('aggs')
+  })
+
+  it('passes from and size through', () => {
+    expect(buildSearchRequest('rome', DEFAULT_RETRIEVAL_CONFIG, { from: 20, size: 30 })).toMatchObject({ from: 20, size: 30 })
+  })
+
+  it('requests the extra stored fields of the index config', () => {
+    const indexConfig = { ...DEFAULT_INDEX_CONFIG, storedFields: ['title', 'url', 'year'] }
+    expect(buildSearchRequest('rome', DEFAULT_RETRIEVAL_CONFIG, { indexConfig }).fields).toEqual([
+      '_id',
+      'title',
+      'content',
+      'url',
+      'year'
+    ])
+  })
+
+  it('adds filters and aggregations when given', () => {
+    const facets: FacetDefinition[] = [{ type: 'term', name: 'category', field: 'category', label: 'Category' }]
+    const request = buildSearchRequest('rome', DEFAULT_RETRIEVAL_CONFIG, {
+      filters: [{ type: 'term', facet: 'category', field: 'category', value: 'History' }],
+      facets
+    })
+    expect(request.filters).toEqual({ include: { term: { category: 'History' } } })
+    expect(request.aggs).toEqual({ category: { term: { field: 'category', size: 10 } } })
+  })
+})
+
+describe('describeRetrievalConfig', () => {
+  it('lists the RRF parameters for hybrid mode', () => {
+    expect(describeRetrievalConfig(DEFAULT_RETRIEVAL_CONFIG)).toBe('Hybrid (RRF) · k=60 · window=20')
+  })
+
+  it('lists boosts other than 1', () => {
+    expect(describeRetrievalConfig(config({ mode: 'lexical', titleBoost: 2, contentBoost: 0.5 }))).toBe(
+      'Lexical · title^2 · content^0.5'
+    )
+  })
+
+  it('leaves out boosts for semantic mode, which ignores them', () => {
+    expect(describeRetrievalConfig(config({ mode: 'semantic', titleBoost: 2 }))).toBe('Semantic')
+  })
+})
@@ -0,0 +1,118 @@
+// Retrieval configuration and search request body builder
+import { PAGE_SIZE } from '@/lib/pagination'
+import { buildAggregations, buildFilterClause, type ActiveFilter, type FacetDefinition } from '@/lib/facets'
+import { getIndexConfig, requestedFields, type IndexConfig } from '@/lib/indexConfig'
+
+export type RetrievalMode = 'lexical' | 'semantic' | 'hybrid'
+
+export interface RetrievalConfig {
+  mode: RetrievalMode
+  // RRF rank constant (k): higher values flatten the contribution of top ranks
+  rankConstant: number
+  // Number of hits each retriever contributes to RRF fusion
+  windowSize: number
+  // Lexical multi_match field boosts
+  titleBoost: number
+  contentBoost: number
+}
+
+export const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
+  mode: 'hybrid',
+  rankConstant: 60,
+  windowSize: 20,
+  titleBoost: 1,
+  contentBoost: 1
+}
+
+export const RETRIEVAL_MODE_LABELS: Record<RetrievalMode, string> = {
+  lexical: 'Lexical',
+  semantic: 'Semantic',
+  hybrid: 'Hybrid (RRF)'
+}
+
+// Field name with an optional ^boost suffix, omitted for the default boost of 1
+function boostedField(field: string, boost: number): string {
+  return boost === 1 ? field : `${field}^${boost}`
+}
+
+function lexicalQuery(query: string, config: RetrievalConfig, { titleField, contentField }: IndexConfig) {
+  const fields =
+    titleField === contentField
+      ? [boostedField(titleField, config.titleBoost)]
+      : [boostedField(titleField, config.titleBoost), boostedField(contentField, config.contentBoost)]
+  return {
+    multi_match: {
+      query,
+      fields
+    }
+  }
+}
+
+function semanticQuery(query: string, field: string) {
+  return {
+    semantic: {
+      field,
+      query
+    }
+  }
+}
+
+// Indexes without a semantic field only support lexical retrieval
+export function buildSearchQuery(query: string, config: RetrievalConfig, indexConfig: IndexConfig = getIndexConfig()) {
+  const { semanticField } = indexConfig
+  if (semanticField === null) return lexicalQuery(query, config, indexConfig)
+
+  switch (config.mode) {
+    case 'lexical':
+      return lexicalQuery(query, config, indexConfig)
+    case 'semantic':
+      return semanticQuery(query, semanticField)
+    case 'hybrid':
+      return {
+        rrf: {
+          retrieve: [lexicalQuery(query, config, indexConfig), semanticQuery(query, semanticField)],
+          rank_constant: config.rankConstant,
+          rank_window_size: config.windowSize
+        }
+      }
+  }
+}
+
+export interface SearchRequestOptions {
+  from?: number
+  size?: number
+  filters?: ActiveFilter[]
+  // Facets to request aggregations for
+  facets?: FacetDefinition[]
+  // Index to search; the app-wide config unless given
+  indexConfig?: IndexConfig
+}
+
+export function buildSearchRequest(query: string, config: RetrievalConfig, options: SearchRequestOptions = {}) {
+  const { from = 0, size = PAGE_SIZE, filters = [], facets = [], indexConfig = getIndexConfig() } = options
+  const filterClause = buildFilterClause(filters)
+  return {
+    query: buildSearchQuery(query, config, indexConfig),
+    ...(filterClause && { filters: filterClause }),
+    ...(facets.length > 0 && { aggs: buildAggregations(facets) }),
+    fields: ['_id', ...requestedFields(indexConfig)],
+    from,
+    size
+  }
+}
+
+// Short human-readable summary of a config, e.g. "Hybrid (RRF) · k=60 · window=20 · title^2"
+export function describeRetrievalConfig(config: RetrievalConfig): string {
+  const parts = [RETRIEVAL_MODE_LABELS[config.mode]]
+  if (config.mode === 'hybrid') {
+    parts.push(`k=${config.rankConstant}`, `window=${config.windowSize}`)
+  }
+  if (config.mode !== 'semantic') {
+    const boosts = [
+      config.titleBoost !== 1 ? `title^${config.titleBoost}` : null,
+      config.contentBoost !== 1 ? `content^${config.contentBoost}` : null
+    ].filter((b) => b !== null)
+    parts.push(...boosts)
+  }
+  return parts.join(' · ')
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearCache } from '@/lib/searchCache'
+import { setLogLevel } from '@/lib/logger'
+import { DEFAULT_RETRIEVAL_CONFIG } from '@/lib/retrieval'
+import { canExplain, explainScore, fetchRetrieverHits, rrfContribution, type RetrieverHits } from '@/lib/scoreExplanation'
+import type { SearchHit } from '@/lib/types'
+
+const hits = (...ids: string[]): SearchHit[] => ids.map((id, index) => ({ _id: id, _score: 10 - index }))
+
+describe('explainScore', () => {
+  const retrieverHits: RetrieverHits = { lexical: hits('a', 'b', 'c'), semantic: hits('c', 'a') }
+
+  it('sums 1 / (k + rank) over the retrievers that found the hit', () => {
+    const explanation = explainScore('a', retrieverHits, 60)
+    expect(explanation.contributions).toEqual([
+      { retriever: 'lexical', label: 'Lexical', rank: 1, score: 10, contribution: 1 / 61 },
+      { retriever: 'semantic', label: 'Semantic', rank: 2, score: 9, contribution: 1 / 62 }
+    ])
+    expect(explanation.total).toBeCloseTo(1 / 61 + 1 / 62)
+  })
+
+  it('gives no contribution outside a retriever window', () => {
+    const explanation = explainScore('b', retrieverHits, 60)
+    expect(explanation.contributions[1]).toMatchObject({ rank: null, score: null, contribution: 0 })
+    expect(explanation.total).toBe(rrfContribution(2, 60))
+  })
+
+  it('only explains hybrid searches', () => {
+    expect(canExplain(DEFAULT_RETRIEVAL_CONFIG)).toBe(true)
+    expect(canExplain({ ...DEFAULT_RETRIEVAL_CONFIG, mode: 'lexical' })).toBe(false)
+  })
+})
+
+describe('fetchRetrieverHits', () => {
+  beforeEach(() => {
+    setLogLevel('silent')
+    clearCache()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('runs each retriever alone over the RRF window', async () => {
+    const bodies: { query: Record<string, unknown>; size: number }[] = []
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init: RequestInit) => {
+        const body = JSON.parse(String(init.body))
+        bodies.push(body)
+        const ids = 'multi_match' in body.query ? ['a', 'b'] : ['b']
+        return new Response(JSON.stringify({ hits: hits(...ids), took: {} }))
+      })
+    )
+    const result = await fetchRetrieverHits('rome', { ...DEFAULT_RETRIEVAL_CONFIG, windowSize: 30 })
+    expect(result.lexical.map((hit) => hit._id)).toEqual(['a', 'b'])
+    expect(result.semantic.map((hit) => hit._id)).toEqual(['b'])
+    expect(bodies.map((body) => Object.keys(body.query)[0]).sort()).toEqual(['multi_match', 'semantic'])
+    expect(bodies.every((body) => body.size === 30)).toBe(true)
+  })
+})
@@ -0,0 +1,74 @@
+// Explains hybrid RRF scores by running the lexical and semantic retrievers on
+// their own and recomputing each hit's reciprocal rank contributions.
+// Nixiesearch has no explain API, so this costs two extra searches.
+import { fetchSearchResults } from '@/lib/api'
+import type { RequestOptions } from '@/lib/apiClient'
+import type { ActiveFilter } from '@/lib/facets'
+import { getIndexConfig } from '@/lib/indexConfig'
+import { RETRIEVAL_MODE_LABELS, type RetrievalConfig } from '@/lib/retrieval'
+import type { SearchHit } from '@/lib/types'
+
+export type Retriever = 'lexical' | 'semantic'
+
+const RETRIEVERS: Retriever[] = ['lexical', 'semantic']
+
+// Each retriever's hits for the query, up to the RRF window
+export type RetrieverHits = Record<Retriever, SearchHit[]>
+
+export interface RetrieverContribution {
+  retriever: Retriever
+  label: string
+  // 1-based rank within the retriever's window, null when the hit is outside it
+  rank: number | null
+  // The retriever's own score (BM25 or similarity)
+  score: number | null
+  // 1 / (k + rank), or 0 outside the window
+  contribution: number
+}
+
+export interface ScoreExplanation {
+  rankConstant: number
+  contributions: RetrieverContribution[]
+  // Sum of the contributions, i.e. the expected fused RRF score
+  total: number
+}
+
+// Only hybrid searches fuse retrievers; without a semantic field hybrid runs lexical only
+export function canExplain(config: RetrievalConfig): boolean {
+  return config.mode === 'hybrid' && getIndexConfig().semanticField !== null
+}
+
+export function rrfContribution(rank: number, rankConstant: number): number {
+  return 1 / (rankConstant + rank)
+}
+
+export function explainScore(id: string, retrieverHits: RetrieverHits, rankConstant: number): ScoreExplanation {
+  const contributions = RETRIEVERS.map((retriever): RetrieverContribution => {
+    const index = retrieverHits[retriever].findIndex((hit) => hit._id === id)
+    const rank = index === -1 ? null : index + 1
+    return {
+      retriever,
+      label: RETRIEVAL_MODE_LABELS[retriever],
+      rank,
+      score: index === -1 ? null : retrieverHits[retriever][index]._score,
+      contribution: rank === null ? 0 : rrfContribution(rank, rankConstant)
+    }
+  })
+  return {
+    rankConstant,
+    contributions,
+    total: contributions.reduce((sum, c) => sum + c.contribution, 0)
+  }
+}
+
+// Runs both retrievers with the hybrid config's boosts and filters
+export async function fetchRetrieverHits(
+  query: string,
+  config: RetrievalConfig,
+  options: { filters?: ActiveFilter[] } & RequestOptions = {}
+): Promise<RetrieverHits> {
+  const [lexical, semantic] = await Promise.all(
+    RETRIEVERS.map((mode) => fetchSearchResults(query, { ...config, mode }, { ...options, size: config.windowSize }))
+  )
+  return { lexical: lexical.hits, semantic: semantic.hits }
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fetchSearchResults } from '@/lib/api'
+import { isAbortError } from '@/lib/apiClient'
+import { setLogLevel } from '@/lib/logger'
+import { DEFAULT_RETRIEVAL_CONFIG } from '@/lib/retrieval'
+import {
+  CACHE_CAPACITY,
+  cacheKey,
+  clearCache,
+  dedupe,
+  getCacheState,
+  getCached,
+  putCached,
+  setCacheSettings
+} from '@/lib/searchCache'
+import type { SearchResponse } from '@/lib/types'
+
+const response = (id: string): SearchResponse => ({ hits: [{ _id: id, _score: 1 }], took: { total: 0.01 }, clientTime: 20 })
+
+// Minimal Storage backed by a Map
+function memoryStorage() {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  }
+}
+
+beforeEach(() => {
+  setLogLevel('silent')
+  clearCache()
+  setCacheSettings({ bypass: false, persist: false })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('search cache', () => {
+  it('keys requests by URL and full body', () => {
+    expect(cacheKey('/search', { query: 'a', size: 10 })).toBe(cacheKey('/search', { query: 'a', size: 10 }))
+    expect(cacheKey('/search', { query: 'a', size: 10 })).not.toBe(cacheKey('/search', { query: 'a', size: 20 }))
+    expect(cacheKey('/a/search', { query: 'a' })).not.toBe(cacheKey('/b/search', { query: 'a' }))
+  })
+
+  it('evicts the least recently used response', () => {
+    for (let i = 0; i < CACHE_CAPACITY; i++) putCached(`k${i}`, response(`${i}`))
+    getCached('k0')
+    putCached('new', response('new'))
+    expect(getCacheState().size).toBe(CACHE_CAPACITY)
+    expect(getCached('k0')).toBeDefined()
+    expect(getCached('k1')).toBeUndefined()
+  })
+
+  it('persists to sessionStorage when enabled', async () => {
+    const storage = memoryStorage()
+    vi.stubGlobal('sessionStorage', storage)
+    putCached('before', response('before'))
+    setCacheSettings({ persist: true })
+    putCached('after', response('after'))
+    expect(JSON.parse(storage.getItem('lambda-demo-ui:search-cache')!).map(([key]: [string]) => key)).toEqual([
+      'before',
+      'after'
+    ])
+
+    vi.stubGlobal('localStorage', { ...memoryStorage(), getItem: () => '{"persist":true}' })
+    vi.resetModules()
+    const fresh = await import('@/lib/searchCache')
+    expect(fresh.getCached('after')).toEqual(response('after'))
+
+    setCacheSettings({ persist: false })
+    expect(storage.getItem('lambda-demo-ui:search-cache')).toBeNull()
+  })
+})
+
+describe('dedupe', () => {
+  it('shares one call between concurrent callers', async () => {
+    const run = vi.fn(async () => 'done')
+    const results = await Promise.all([dedupe('k', '/s', run), dedupe('k', '/s', run)])
+    expect(results).toEqual(['done', 'done'])
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+
+  it('aborts the shared call only when every caller has aborted', async () => {
+    let shared: AbortSignal | undefined
+    const run = (signal: AbortSignal) => {
+      shared = signal
+      return new Promise<string>((resolve) => setTimeout(() => resolve('done'), 10))
+    }
+    const first = new AbortController()
+    const second = new AbortController()
+    const a = dedupe('k', '/s', run, first.signal)
+    const b = dedupe('k', '/s', run, second.signal)
+
+    first.abort()
+    expect(isAbortError(await a.catch((err) => err))).toBe(true)
+    expect(shared?.aborted).toBe(false)
+    second.abort()
+    expect(isAbortError(await b.catch((err) => err))).toBe(true)
+    expect(shared?.aborted).toBe(true)
+  })
+})
+
+describe('fetchSearchResults caching', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async () => new Response('{"hits":[{"_id":"a","_score":1}],"took":{"total":0.01}}'))
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  it('answers repeated and concurrent requests from one call', async () => {
+    const [first, concurrent] = await Promise.all([
+      fetchSearchResults('rome', DEFAULT_RETRIEVAL_CONFIG),
+      fetchSearchResults('rome', DEFAULT_RETRIEVAL_CONFIG)
+    ])
+    const repeated = await fetchSearchResults('rome', DEFAULT_RETRIEVAL_CONFIG)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(first.cached).toBeUndefined()
+    expect(concurrent.cached).toBeUndefined()
+    expect(repeated).toMatchObject({ cached: true, hits: first.hits, clientTime: first.clientTime })
+
+    await fetchSearchResults('rome', DEFAULT_RETRIEVAL_CONFIG, { size: 20 })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('goes to the server when bypassed or disabled per call', async () => {
+    await fetchSearchResults('rome', DEFAULT_RETRIEVAL_CONFIG)
+    setCacheSettings({ bypass: true })
+    expect((await fetchSearchResults('rome', DEFAULT_RETRIEVAL_CONFIG)).cached).toBeUndefined()
+    setCacheSettings({ bypass: false })
+    await fetchSearchResults('rome', DEFAULT_RETRIEVAL_CONFIG, { cache: false })
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+})
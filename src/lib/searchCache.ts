@@ -0,0 +1,175 @@
+// In-memory LRU cache of search responses with request deduplication and
+// optional sessionStorage persistence
+import { ApiRequestError } from '@/lib/apiClient'
+import { createLogger } from '@/lib/logger'
+import type { SearchResponse } from '@/lib/types'
+
+const log = createLogger('Cache')
+
+export interface CacheSettings {
+  // Always go to the server, e.g. for latency testing; responses are still cached
+  bypass: boolean
+  // Keep cached responses in sessionStorage so they survive a reload
+  persist: boolean
+}
+
+export interface CacheState {
+  settings: CacheSettings
+  size: number
+}
+
+// Number of responses kept; the least recently used ones are evicted
+export const CACHE_CAPACITY = 50
+
+const SETTINGS_KEY = 'lambda-demo-ui:cache-settings'
+const ENTRIES_KEY = 'lambda-demo-ui:search-cache'
+
+const entries = new Map<string, SearchResponse>()
+const listeners = new Set<() => void>()
+let state: CacheState = { settings: loadSettings(), size: 0 }
+
+function loadSettings(): CacheSettings {
+  try {
+    const stored = JSON.parse(globalThis.localStorage?.getItem(SETTINGS_KEY) ?? 'null')
+    return { bypass: stored?.bypass === true, persist: stored?.persist === true }
+  } catch {
+    return { bypass: false, persist: false }
+  }
+}
+
+function emit() {
+  state = { ...state, size: entries.size }
+  listeners.forEach((listener) => listener())
+}
+
+function persistEntries() {
+  if (!state.settings.persist) return
+  try {
+    globalThis.sessionStorage?.setItem(ENTRIES_KEY, JSON.stringify([...entries]))
+  } catch (err) {
+    log.warn('Could not persist cache to sessionStorage:', err)
+  }
+}
+
+function restoreEntries() {
+  try {
+    const stored = JSON.parse(globalThis.sessionStorage?.getItem(ENTRIES_KEY) ?? '[]')
+    if (!Array.isArray(stored)) return
+    for (const [key, response] of stored.slice(-CACHE_CAPACITY)) {
+      if (typeof key === 'string' && Array.isArray(response?.hits)) entries.set(key, response)
+    }
+    log.debug('Restored', entries.size, 'cached responses')
+  } catch (err) {
+    log.warn('Could not restore cache from sessionStorage:', err)
+  }
+}
+
+if (state.settings.persist) restoreEntries()
+
+// Requests are identical when they go to the same URL with the same body
+export function cacheKey(url: string, body: unknown): string {
+  return `${url} ${JSON.stringify(body)}`
+}
+
+export function getCached(key: string): SearchResponse | undefined {
+  const response = entries.get(key)
+  if (response) {
+    // Move to the most recently used position
+    entries.delete(key)
+    entries.set(key, response)
+  }
+  return response
+}
+
+export function putCached(key: string, response: SearchResponse) {
+  entries.delete(key)
+  entries.set(key, response)
+  while (entries.size > CACHE_CAPACITY) {
+    entries.delete(entries.keys().next().value!)
+  }
+  persistEntries()
+  emit()
+}
+
+export function clearCache() {
+  entries.clear()
+  globalThis.sessionStorage?.removeItem(ENTRIES_KEY)
+  emit()
+}
+
+export function getCacheState(): CacheState {
+  return state
+}
+
+export function subscribeCache(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export function setCacheSettings(patch: Partial<CacheSettings>) {
+  const settings = { ...state.settings, ...patch }
+  state = { ...state, settings }
+  try {
+    globalThis.localStorage?.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  } catch (err) {
+    log.error('Failed to save cache settings:', err)
+  }
+  if (patch.persist === true) persistEntries()
+  if (patch.persist === false) globalThis.sessionStorage?.removeItem(ENTRIES_KEY)
+  emit()
+}
+
+interface Pending<T> {
+  promise: Promise<T>
+  controller: AbortController
+  waiters: number
+}
+
+const pending = new Map<string, Pending<unknown>>()
+
+// Shares one in-flight request between concurrent callers with the same key.
+// Each caller can abort its own wait; the request itself is only aborted once
+// every caller has.
+export function dedupe<T>(key: string, url: string, run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) return Promise.reject(new ApiRequestError({ kind: 'aborted', url }))
+
+  let entry = pending.get(key) as Pending<T> | undefined
+  if (entry) {
+    log.debug('Joining in-flight request:', key)
+  } else {
+    const controller = new AbortController()
+    const created: Pending<T> = {
+      promise: run(controller.signal).finally(() => {
+        if (pending.get(key) === created) pending.delete(key)
+      }),
+      controller,
+      waiters: 0
+    }
+    entry = created
+    pending.set(key, entry)
+  }
+
+  const shared = entry
+  shared.waiters++
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      shared.waiters--
+      if (shared.waiters === 0) {
+        if (pending.get(key) === shared) pending.delete(key)
+        shared.controller.abort()
+      }
+      reject(new ApiRequestError({ kind: 'aborted', url }))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+    shared.promise.then(
+      (value) => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve(value)
+      },
+      (err) => {
+        signal?.removeEventListener('abort', onAbort)
+        reject(err)
+      }
+    )
+  })
+}
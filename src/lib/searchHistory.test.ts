@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import {
+  HISTORY_LIMIT,
+  formatAge,
+  historyToJson,
+  mergeHistory,
+  parseHistoryFile,
+  recordSearch,
+  removeEntry,
+  sortHistory,
+  togglePinned,
+  type HistoryEntry
+} from '@/lib/searchHistory'
+
+const run = (query: string, timestamp: number, hits = 10): Omit<HistoryEntry, 'pinned'> => ({
+  query,
+  timestamp,
+  hits,
+  clientMs: 120,
+  serverMs: 15
+})
+
+describe('recordSearch', () => {
+  it('moves a repeated query to the front with its latest stats and pin', () => {
+    let history = recordSearch([], run('rome', 1))
+    history = recordSearch(history, run('milan', 2))
+    history = togglePinned(history, 'rome')
+    history = recordSearch(history, run('  Rome ', 3, 4))
+    expect(history.map((entry) => entry.query)).toEqual(['Rome', 'milan'])
+    expect(history[0]).toMatchObject({ timestamp: 3, hits: 4, pinned: true })
+  })
+
+  it('ignores blank queries', () => {
+    expect(recordSearch([], run('  ', 1))).toEqual([])
+  })
+
+  it('drops the oldest unpinned entries beyond the limit', () => {
+    let history = togglePinned(recordSearch([], run('pinned', 0)), 'pinned')
+    for (let i = 1; i <= HISTORY_LIMIT + 5; i++) history = recordSearch(history, run(`q${i}`, i))
+    expect(history).toHaveLength(HISTORY_LIMIT + 1)
+    expect(history.some((entry) => entry.query === 'pinned')).toBe(true)
+    expect(history.some((entry) => entry.query === 'q1')).toBe(false)
+  })
+})
+
+describe('history actions', () => {
+  const history = [run('rome', 3), run('milan', 2), run('naples', 1)].map((entry) => ({ ...entry, pinned: false }))
+
+  it('lists pinned entries first and deletes by query', () => {
+    expect(sortHistory(togglePinned(history, 'NAPLES')).map((entry) => entry.query)).toEqual(['naples', 'rome', 'milan'])
+    expect(removeEntry(history, 'Milan').map((entry) => entry.query)).toEqual(['rome', 'naples'])
+  })
+
+  it('round-trips through JSON and merges imports', () => {
+    const imported = parseHistoryFile(historyToJson(togglePinned(history, 'rome')))
+    expect(imported).toEqual(togglePinned(history, 'rome'))
+
+    const local = [{ ...run('rome', 5, 1), pinned: false }]
+    const merged = mergeHistory(local, imported)
+    expect(merged[0]).toMatchObject({ query: 'rome', timestamp: 5, hits: 1, pinned: true })
+    expect(merged).toHaveLength(3)
+  })
+
+  it('imports a plain list of queries as pinned, unrun entries', () => {
+    expect(parseHistoryFile('["rome", "milan", 3]')).toEqual([
+      { query: 'rome', timestamp: 0, hits: 0, clientMs: 0, pinned: true },
+      { query: 'milan', timestamp: 0, hits: 0, clientMs: 0, pinned: true }
+    ])
+    expect(() => parseHistoryFile('{"queries": []}')).toThrow('Expected a list of searches')
+  })
+})
+
+describe('formatAge', () => {
+  it('rounds down to minutes, hours and days', () => {
+    const now = 10 * 86400000
+    expect(formatAge(now - 30000, now)).toBe('just now')
+    expect(formatAge(now - 5 * 60000, now)).toBe('5 min ago')
+    expect(formatAge(now - 3 * 3600000, now)).toBe('3 h ago')
+    expect(formatAge(now - 2 * 86400000, now)).toBe('2 d ago')
+  })
+})
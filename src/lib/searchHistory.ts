@@ -0,0 +1,138 @@
+// Recent and pinned (saved) searches, persisted in localStorage
+import { normalizeQuery } from '@/lib/judgments'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('History')
+
+export interface HistoryEntry {
+  // As last typed, trimmed; entries are matched on the normalized query
+  query: string
+  // Time of the last run, in ms since the epoch
+  timestamp: number
+  // Results and latency of the last run
+  hits: number
+  clientMs: number
+  serverMs?: number
+  // Pinned entries are saved queries: listed first and never trimmed
+  pinned: boolean
+}
+
+// Most recently run first
+export type SearchHistory = HistoryEntry[]
+
+// Unpinned entries kept; older ones are dropped
+export const HISTORY_LIMIT = 50
+
+const STORAGE_KEY = 'lambda-demo-ui:history'
+
+function trim(history: SearchHistory): SearchHistory {
+  let unpinned = 0
+  return history.filter((entry) => entry.pinned || ++unpinned <= HISTORY_LIMIT)
+}
+
+function sameQuery(a: string, b: string): boolean {
+  return normalizeQuery(a) === normalizeQuery(b)
+}
+
+// Moves the query to the front with the stats of this run, keeping its pin
+export function recordSearch(history: SearchHistory, run: Omit<HistoryEntry, 'pinned'>): SearchHistory {
+  const query = run.query.trim()
+  if (!query) return history
+  const existing = history.find((entry) => sameQuery(entry.query, query))
+  const entry: HistoryEntry = { ...run, query, pinned: existing?.pinned ?? false }
+  return trim([entry, ...history.filter((e) => e !== existing)])
+}
+
+export function togglePinned(history: SearchHistory, query: string): SearchHistory {
+  return history.map((entry) => (sameQuery(entry.query, query) ? { ...entry, pinned: !entry.pinned } : entry))
+}
+
+export function removeEntry(history: SearchHistory, query: string): SearchHistory {
+  return history.filter((entry) => !sameQuery(entry.query, query))
+}
+
+// Pinned entries first, each group most recent first
+export function sortHistory(history: SearchHistory): SearchHistory {
+  return [...history.filter((entry) => entry.pinned), ...history.filter((entry) => !entry.pinned)]
+}
+
+// Imported entries replace older local ones for the same query; a pin on
+// either side is kept
+export function mergeHistory(base: SearchHistory, incoming: SearchHistory): SearchHistory {
+  const merged = [...base]
+  for (const entry of incoming) {
+    const index = merged.findIndex((e) => sameQuery(e.query, entry.query))
+    if (index === -1) {
+      merged.push(entry)
+    } else {
+      const current = merged[index]
+      merged[index] = {
+        ...(entry.timestamp >= current.timestamp ? entry : current),
+        pinned: entry.pinned || current.pinned
+      }
+    }
+  }
+  return trim(merged.sort((a, b) => b.timestamp - a.timestamp))
+}
+
+function sanitizeEntry(raw: unknown): HistoryEntry | null {
+  if (typeof raw !== 'object' || raw === null) return null
+  const { query, timestamp, hits, clientMs, serverMs, pinned } = raw as Record<string, unknown>
+  if (typeof query !== 'string' || !query.trim()) return null
+  const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined)
+  return {
+    query: query.trim(),
+    timestamp: number(timestamp) ?? 0,
+    hits: number(hits) ?? 0,
+    clientMs: number(clientMs) ?? 0,
+    ...(number(serverMs) !== undefined && { serverMs: number(serverMs) }),
+    pinned: pinned === true
+  }
+}
+
+function sanitize(raw: unknown): SearchHistory {
+  if (!Array.isArray(raw)) return []
+  const entries = raw.map(sanitizeEntry).filter((entry) => entry !== null)
+  // Duplicates collapse into the most recent entry
+  return mergeHistory([], entries)
+}
+
+export function loadHistory(): SearchHistory {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? sanitize(JSON.parse(stored)) : []
+  } catch (err) {
+    log.error('Failed to load from localStorage:', err)
+    return []
+  }
+}
+
+export function saveHistory(history: SearchHistory) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history))
+  } catch (err) {
+    log.error('Failed to save to localStorage:', err)
+  }
+}
+
+export function historyToJson(history: SearchHistory): string {
+  return JSON.stringify({ version: 1, history }, null, 2)
+}
+
+// Accepts the JSON export, a bare array of entries or a plain list of query strings
+export function parseHistoryFile(text: string): SearchHistory {
+  const parsed: unknown = JSON.parse(text)
+  const raw = typeof parsed === 'object' && parsed !== null && 'history' in parsed ? parsed.history : parsed
+  if (!Array.isArray(raw)) throw new Error('Expected a list of searches')
+  return sanitize(raw.map((item) => (typeof item === 'string' ? { query: item, pinned: true } : item)))
+}
+
+// Coarse relative time, e.g. "just now", "5 min ago", "3 h ago", "2 d ago"
+export function formatAge(timestamp: number, now: number = Date.now()): string {
+  const minutes = Math.floor((now - timestamp) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes} min ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours} h ago`
+  return `${Math.floor(hours / 24)} d ago`
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import {
+  describeSearchState,
+  moveActiveIndex,
+  resolveShortcut,
+  targetKind,
+  type ShortcutContext,
+  type ShortcutKey
+} from '@/lib/shortcuts'
+
+const key = (name: string, modifiers: Partial<ShortcutKey> = {}): ShortcutKey => ({
+  key: name,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  ...modifiers
+})
+
+const PAGE: ShortcutContext = { target: 'other', overlayOpen: false, resultCount: 10 }
+
+describe('resolveShortcut', () => {
+  it('maps keys on the page to actions', () => {
+    expect(resolveShortcut(key('/'), PAGE)).toBe('focus-search')
+    expect(resolveShortcut(key('j'), PAGE)).toBe('next')
+    expect(resolveShortcut(key('ArrowDown'), PAGE)).toBe('next')
+    expect(resolveShortcut(key('k'), PAGE)).toBe('previous')
+    expect(resolveShortcut(key('ArrowUp'), PAGE)).toBe('previous')
+    expect(resolveShortcut(key('Escape'), PAGE)).toBe('clear')
+    expect(resolveShortcut(key('x'), PAGE)).toBeNull()
+  })
+
+  it('opens only the focused card on Enter', () => {
+    expect(resolveShortcut(key('Enter'), PAGE)).toBeNull()
+    expect(resolveShortcut(key('Enter'), { ...PAGE, target: 'card' })).toBe('open')
+  })
+
+  it('leaves typing in the search box and other fields alone', () => {
+    const search = { ...PAGE, target: 'search' as const }
+    expect(resolveShortcut(key('/'), search)).toBeNull()
+    expect(resolveShortcut(key('j'), search)).toBeNull()
+    expect(resolveShortcut(key('ArrowDown'), search)).toBeNull()
+    expect(resolveShortcut(key('Escape'), search)).toBe('clear')
+
+    const field = { ...PAGE, target: 'editable' as const }
+    expect(resolveShortcut(key('/'), field)).toBeNull()
+    expect(resolveShortcut(key('Escape'), field)).toBeNull()
+  })
+
+  it('ignores modified keys, open drawers and empty result lists', () => {
+    expect(resolveShortcut(key('k', { ctrlKey: true }), PAGE)).toBeNull()
+    expect(resolveShortcut(key('/', { metaKey: true }), PAGE)).toBeNull()
+    expect(resolveShortcut(key('j'), { ...PAGE, overlayOpen: true })).toBeNull()
+    expect(resolveShortcut(key('j'), { ...PAGE, resultCount: 0 })).toBeNull()
+    expect(resolveShortcut(key('/'), { ...PAGE, resultCount: 0 })).toBe('focus-search')
+  })
+})
+
+describe('targetKind', () => {
+  it('reads the shortcut target marker before the tag', () => {
+    expect(targetKind({ tagName: 'INPUT', dataset: { shortcutTarget: 'search' } })).toBe('search')
+    expect(targetKind({ tagName: 'DIV', dataset: { shortcutTarget: 'card' } })).toBe('card')
+    expect(targetKind({ tagName: 'TEXTAREA', dataset: {} })).toBe('editable')
+    expect(targetKind({ tagName: 'DIV', isContentEditable: true })).toBe('editable')
+    expect(targetKind({ tagName: 'BUTTON', dataset: {} })).toBe('other')
+    expect(targetKind(null)).toBe('other')
+  })
+})
+
+describe('moveActiveIndex', () => {
+  it('starts at either end and stays within the list', () => {
+    expect(moveActiveIndex(-1, 'next', 3)).toBe(0)
+    expect(moveActiveIndex(-1, 'previous', 3)).toBe(2)
+    expect(moveActiveIndex(0, 'next', 3)).toBe(1)
+    expect(moveActiveIndex(2, 'next', 3)).toBe(2)
+    expect(moveActiveIndex(0, 'previous', 3)).toBe(0)
+    expect(moveActiveIndex(5, 'previous', 3)).toBe(2)
+    expect(moveActiveIndex(0, 'next', 0)).toBe(-1)
+  })
+})
+
+describe('describeSearchState', () => {
+  const state = { loading: false, query: 'rome', count: 10, hasMore: true, searched: true }
+
+  it('announces loading, counts and empty results', () => {
+    expect(describeSearchState({ ...state, loading: true })).toBe('Searching...')
+    expect(describeSearchState(state)).toBe('10+ results for rome')
+    expect(describeSearchState({ ...state, count: 1, hasMore: false })).toBe('1 result for rome')
+    expect(describeSearchState({ ...state, count: 0, hasMore: false })).toBe('No results found for rome')
+    expect(describeSearchState({ ...state, searched: false })).toBe('')
+  })
+})
@@ -0,0 +1,85 @@
+// Global keyboard shortcuts for the search page: `/` focuses the search box,
+// j/k or the arrow keys move between result cards, Enter opens the focused
+// card and Escape clears the search
+export type ShortcutAction = 'focus-search' | 'next' | 'previous' | 'open' | 'clear'
+
+// Where the key was pressed. Elements opt in with a `data-shortcut-target`
+// attribute; other form fields keep their own keys.
+export type TargetKind = 'search' | 'card' | 'editable' | 'other'
+
+export interface ShortcutKey {
+  key: string
+  ctrlKey: boolean
+  metaKey: boolean
+  altKey: boolean
+}
+
+export interface ShortcutContext {
+  target: TargetKind
+  // Drawers handle their own keys, including Escape
+  overlayOpen: boolean
+  resultCount: number
+}
+
+export interface ShortcutTarget {
+  tagName: string
+  isContentEditable?: boolean
+  dataset?: DOMStringMap
+}
+
+const EDITABLE_TAGS = new Set(['INPUT', 'TEXTAREA', 'SELECT'])
+
+export function targetKind(target: ShortcutTarget | null): TargetKind {
+  if (!target) return 'other'
+  const marked = target.dataset?.shortcutTarget
+  if (marked === 'search' || marked === 'card') return marked
+  if (target.isContentEditable || EDITABLE_TAGS.has(target.tagName)) return 'editable'
+  return 'other'
+}
+
+// Null when the key should keep its default behaviour. In the search box only
+// Escape is a shortcut, so typing `/`, j or k still works.
+export function resolveShortcut(event: ShortcutKey, context: ShortcutContext): ShortcutAction | null {
+  if (context.overlayOpen || event.ctrlKey || event.metaKey || event.altKey) return null
+  if (context.target === 'search') return event.key === 'Escape' ? 'clear' : null
+  if (context.target === 'editable') return null
+
+  switch (event.key) {
+    case '/':
+      return 'focus-search'
+    case 'Escape':
+      return 'clear'
+    case 'j':
+    case 'ArrowDown':
+      return context.resultCount > 0 ? 'next' : null
+    case 'k':
+    case 'ArrowUp':
+      return context.resultCount > 0 ? 'previous' : null
+    case 'Enter':
+      return context.target === 'card' ? 'open' : null
+    default:
+      return null
+  }
+}
+
+// Index of the card to focus, staying within the list; -1 means none is active
+export function moveActiveIndex(current: number, action: 'next' | 'previous', count: number): number {
+  if (count === 0) return -1
+  if (current < 0) return action === 'next' ? 0 : count - 1
+  return Math.min(Math.max(current + (action === 'next' ? 1 : -1), 0), count - 1)
+}
+
+// Screen reader announcement for the search state, read by a polite live region
+export function describeSearchState(state: {
+  loading: boolean
+  query: string
+  count: number
+  hasMore: boolean
+  searched: boolean
+}): string {
+  if (state.loading) return 'Searching...'
+  if (!state.searched) return ''
+  if (state.count === 0) return `No results found for ${state.query}`
+  const count = `${state.count}${state.hasMore ? '+' : ''} ${state.count === 1 ? 'result' : 'results'}`
+  return `${count} for ${state.query}`
+}
@@ -0,0 +1,57 @@
+import type { AggregationResult } from '@/lib/facets'
+import type { RetrievalConfig } from '@/lib/retrieval'
+
+export interface SearchHit {
+  _id: string
+  _score: number
+  // Highlight fragments keyed by field, with matches wrapped in <em> tags,
+  // when the backend returns them
+  _highlight?: Record<string, string[]>
+  // Stored fields as returned by the index (title and content for the demo
+  // wiki index); read them with the helpers in lib/hits
+  [field: string]: unknown
+}
+
+export interface TimingBreakdown {
+  total?: number
+  open?: number
+  request?: number
+  search?: number
+  agg?: number
+  fetch?: number
+  rerank?: number
+}
+
+export interface SearchResponse {
+  hits: SearchHit[]
+  took: TimingBreakdown
+  clientTime: number
+  // Keyed by facet name; only present when aggregations were requested
+  aggs?: Record<string, AggregationResult>
+  // Schema drift found while normalizing the payload, e.g. a missing _score
+  warnings?: string[]
+  // Served from the client cache; took and clientTime are those of the
+  // original request, not of this lookup
+  cached?: boolean
+}
+
+// Search response plus the unmodified JSON body, for the query playground
+export interface RawSearchResponse extends SearchResponse {
+  raw: unknown
+}
+
+export interface SearchStats {
+  took: TimingBreakdown
+  count: number
+  clientTime: number
+  config: RetrievalConfig
+  // Schema drift of the response, shown as a warning
+  warnings?: string[]
+  // Timings are from an earlier request answered again from the client cache
+  cached?: boolean
+}
+
+export interface Suggestion {
+  text: string
+  score: number
+}
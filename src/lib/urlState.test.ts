@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import type { ActiveFilter, FacetDefinition } from '@/lib/facets'
+import { DEFAULT_RETRIEVAL_CONFIG } from '@/lib/retrieval'
+import {
+  buildSearchUrl,
+  parseDocumentParam,
+  parseSearchUrl,
+  withDocumentParam,
+  type UrlSearchState
+} from '@/lib/urlState'
+
+const facets: FacetDefinition[] = [
+  { type: 'term', name: 'category', field: 'category', label: 'Category' },
+  { type: 'range', name: 'length', field: 'length', label: 'Length', ranges: [{ to: 1000 }, { from: 1000 }] }
+]
+
+const state = (overrides: Partial<UrlSearchState> = {}): UrlSearchState => ({
+  query: 'rome',
+  config: DEFAULT_RETRIEVAL_CONFIG,
+  filters: [],
+  page: 1,
+  ...overrides
+})
+
+// Parses a built URL's query string back, as the browser would hand it over
+const roundTrip = (s: UrlSearchState) => parseSearchUrl(new URL(buildSearchUrl(s, '/'), 'https://x').search, facets)
+
+describe('search URLs', () => {
+  it('writes only the query for default settings', () => {
+    expect(buildSearchUrl(state(), '/base/')).toBe('/base/?q=rome')
+  })
+
+  it('round-trips the query, settings, filters and page', () => {
+    const original = state({
+      query: 'roman empire & co',
+      config: { mode: 'lexical', rankConstant: 30, windowSize: 50, titleBoost: 2, contentBoost: 0.5 },
+      filters: [
+        { type: 'term', facet: 'category', field: 'category', value: 'History' },
+        { type: 'range', facet: 'length', field: 'length', from: 100, to: 1000 }
+      ],
+      page: 3
+    })
+    expect(roundTrip(original)).toEqual(original)
+  })
+
+  it('round-trips filter values that need encoding', () => {
+    const filters: ActiveFilter[] = [
+      { type: 'term', facet: 'category', field: 'category', value: 'Art & Design: 20th c.' },
+      { type: 'term', facet: 'category', field: 'category', value: 'a+b=c?' }
+    ]
+    const url = buildSearchUrl(state({ filters }), '/')
+    expect(url).not.toContain('Art & Design')
+    expect(roundTrip(state({ filters }))?.filters).toEqual(filters)
+  })
+
+  it('is null without a query', () => {
+    expect(parseSearchUrl('', facets)).toBeNull()
+    expect(parseSearchUrl('?q=%20%20&mode=lexical', facets)).toBeNull()
+  })
+
+  it('falls back to the default mode for an unknown one', () => {
+    expect(parseSearchUrl('?q=rome&mode=fuzzy', facets)?.config.mode).toBe(DEFAULT_RETRIEVAL_CONFIG.mode)
+    expect(parseSearchUrl('?q=rome&mode=', facets)?.config.mode).toBe(DEFAULT_RETRIEVAL_CONFIG.mode)
+  })
+
+  it('falls back to defaults for out-of-range or non-numeric settings', () => {
+    expect(parseSearchUrl('?q=rome&k=0&window=abc&title_boost=-1', facets)?.config).toEqual(DEFAULT_RETRIEVAL_CONFIG)
+  })
+
+  it('restores page 1 for a page below 1 or not a number, and caps large pages', () => {
+    expect(parseSearchUrl('?q=rome&page=0', facets)?.page).toBe(1)
+    expect(parseSearchUrl('?q=rome&page=-2', facets)?.page).toBe(1)
+    expect(parseSearchUrl('?q=rome&page=two', facets)?.page).toBe(1)
+    expect(parseSearchUrl('?q=rome&page=2.7', facets)?.page).toBe(2)
+    expect(parseSearchUrl('?q=rome&page=500', facets)?.page).toBe(20)
+  })
+
+  it('drops filters for unknown facets or with malformed ranges', () => {
+    const parsed = parseSearchUrl('?q=rome&filter=color:red&filter=length:a..b&filter=category:History', facets)
+    expect(parsed?.filters).toEqual([{ type: 'term', facet: 'category', field: 'category', value: 'History' }])
+  })
+})
+
+describe('document param', () => {
+  it('adds the doc param and keeps the search params', () => {
+    const url = withDocumentParam('/base/?q=rome&mode=lexical&filter=category%3AHistory', 'colosseum')
+    const params = new URLSearchParams(url.split('?')[1])
+    expect(url.startsWith('/base/?')).toBe(true)
+    expect(params.get('q')).toBe('rome')
+    expect(params.get('mode')).toBe('lexical')
+    expect(params.getAll('filter')).toEqual(['category:History'])
+    expect(parseDocumentParam(`?${params}`)).toBe('colosseum')
+  })
+
+  it('replaces an existing doc param', () => {
+    expect(parseDocumentParam(withDocumentParam('/?q=rome&doc=a', 'b').slice(1))).toBe('b')
+  })
+
+  it('removes the doc param without losing the others', () => {
+    const withDoc = withDocumentParam(buildSearchUrl(state({ page: 2 }), '/base/'), 'rome')
+    expect(withDocumentParam(withDoc, null)).toBe('/base/?q=rome&page=2')
+  })
+
+  it('drops the query string when doc was the only param', () => {
+    expect(withDocumentParam('/base/?doc=rome', null)).toBe('/base/')
+    expect(parseDocumentParam('?q=rome')).toBeNull()
+  })
+
+  it('encodes ids that need it', () => {
+    const url = withDocumentParam('/', 'Python (programming language)&x')
+    expect(parseDocumentParam(url.slice(1))).toBe('Python (programming language)&x')
+  })
+})
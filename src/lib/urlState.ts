@@ -0,0 +1,84 @@
+// Search state <-> URL query string, relative to the app's base path
+import { DEFAULT_RETRIEVAL_CONFIG, type RetrievalConfig, type RetrievalMode } from '@/lib/retrieval'
+import { FACETS, formatFilter, parseFilter, type ActiveFilter, type FacetDefinition } from '@/lib/facets'
+
+export interface UrlSearchState {
+  query: string
+  config: RetrievalConfig
+  filters: ActiveFilter[]
+  // Number of pages loaded, restored by fetching them in one request
+  page: number
+}
+
+// Upper bound on restored pages so a hand-edited link can't request thousands of hits
+const MAX_PAGE = 20
+
+const MODES: RetrievalMode[] = ['lexical', 'semantic', 'hybrid']
+
+function readNumber(params: URLSearchParams, key: string, fallback: number, min: number): number {
+  const raw = params.get(key)
+  if (raw === null) return fallback
+  const value = Number(raw)
+  return Number.isFinite(value) && value >= min ? value : fallback
+}
+
+// Filters are repeated `filter` params; ones naming an unknown facet are dropped
+export function parseSearchUrl(search: string, facets: FacetDefinition[] = FACETS): UrlSearchState | null {
+  const params = new URLSearchParams(search)
+  const query = params.get('q')
+  if (!query || !query.trim()) return null
+
+  const mode = params.get('mode')
+  const defaults = DEFAULT_RETRIEVAL_CONFIG
+  return {
+    query,
+    config: {
+      mode: MODES.includes(mode as RetrievalMode) ? (mode as RetrievalMode) : defaults.mode,
+      rankConstant: readNumber(params, 'k', defaults.rankConstant, 1),
+      windowSize: readNumber(params, 'window', defaults.windowSize, 1),
+      titleBoost: readNumber(params, 'title_boost', defaults.titleBoost, 0),
+      contentBoost: readNumber(params, 'content_boost', defaults.contentBoost, 0)
+    },
+    filters: params
+      .getAll('filter')
+      .map((value) => parseFilter(value, facets))
+      .filter((filter) => filter !== null),
+    page: Math.min(Math.floor(readNumber(params, 'page', 1, 1)), MAX_PAGE)
+  }
+}
+
+// Builds a path under the Vite base path; only non-default settings are written
+export function buildSearchUrl(state: UrlSearchState, basePath: string = import.meta.env.BASE_URL): string {
+  const params = new URLSearchParams({ q: state.query })
+  const defaults = DEFAULT_RETRIEVAL_CONFIG
+  const { config } = state
+
+  if (config.mode !== defaults.mode) params.set('mode', config.mode)
+  if (config.rankConstant !== defaults.rankConstant) params.set('k', String(config.rankConstant))
+  if (config.windowSize !== defaults.windowSize) params.set('window', String(config.windowSize))
+  if (config.titleBoost !== defaults.titleBoost) params.set('title_boost', String(config.titleBoost))
+  if (config.contentBoost !== defaults.contentBoost) params.set('content_boost', String(config.contentBoost))
+  for (const filter of state.filters) params.append('filter', formatFilter(filter))
+  if (state.page > 1) params.set('page', String(state.page))
+
+  return `${basePath}?${params.toString()}`
+}
+
+// Id of the article open in the detail drawer, kept in the `doc` param so
+// the drawer can be linked to with or without a search
+export function parseDocumentParam(search: string): string | null {
+  return new URLSearchParams(search).get('doc') || null
+}
+
+// Sets or removes the `doc` param of a path plus query string, keeping the rest
+export function withDocumentParam(url: string, id: string | null): string {
+  const [path, search = ''] = url.split('?')
+  const params = new URLSearchParams(search)
+  if (id === null) {
+    params.delete('doc')
+  } else {
+    params.set('doc', id)
+  }
+  const query = params.toString()
+  return query ? `${path}?${query}` : path
+}
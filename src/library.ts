@@ -0,0 +1,38 @@
+// Entry of the search UI library build (`npm run build:lib`). Point the
+// components at an index with IndexConfigProvider, and render them inside
+// TooltipProvider and an element with the `search-ui` class, which scopes the
+// stylesheet.
+import './library.css'
+
+export { SearchBox } from '@/components/SearchBox'
+export { ResultList } from '@/components/ResultList'
+export { ResultCard } from '@/components/ResultCard'
+export { SearchStats } from '@/components/SearchStats'
+export { Timing, TimingStats } from '@/components/TimingStats'
+export { LatencyWaterfall } from '@/components/LatencyWaterfall'
+export { ErrorBanner } from '@/components/ErrorBanner'
+export { IndexConfigProvider } from '@/components/IndexConfigProvider'
+export { TooltipProvider } from '@/components/ui/tooltip'
+
+export { useSearch } from '@/hooks/useSearch'
+export { useIndexConfig } from '@/hooks/useIndexConfig'
+export type { SearchOptions, SearchState, UseSearchOptions, UseSearchResult } from '@/hooks/useSearch'
+
+export { DEFAULT_INDEX_CONFIG } from '@/lib/indexConfig'
+export type { IndexConfig } from '@/lib/indexConfig'
+export {
+  DEFAULT_RETRIEVAL_CONFIG,
+  RETRIEVAL_MODE_LABELS,
+  buildSearchRequest,
+  describeRetrievalConfig
+} from '@/lib/retrieval'
+export type { RetrievalConfig, RetrievalMode } from '@/lib/retrieval'
+export type { ActiveFilter, AggregationResult, FacetDefinition } from '@/lib/facets'
+export { PHASES } from '@/lib/latency'
+export type { PhaseDefinition, PhaseKey } from '@/lib/latency'
+
+export { fetchDocument, fetchSearchResults, fetchSuggestions } from '@/lib/api'
+export { ApiRequestError, describeApiError, isAbortError } from '@/lib/apiClient'
+export type { ApiError, RequestOptions } from '@/lib/apiClient'
+export { setLogLevel, type LogLevel } from '@/lib/logger'
+export type { SearchHit, SearchResponse, SearchStats as SearchStatsData, Suggestion, TimingBreakdown } from '@/lib/types'
@@ -0,0 +1,108 @@
+// Fixture Wikipedia articles served by the mock backend, shaped like the demo
+// wiki index (stored title and content fields)
+export interface MockDocument {
+  _id: string
+  title: string
+  content: string
+  // Further stored fields, e.g. for trying out facets
+  [field: string]: unknown
+}
+
+export const MOCK_CORPUS: MockDocument[] = [
+  {
+    _id: 'rome',
+    title: 'Rome',
+    content:
+      'Rome is the capital city of Italy. It is also the capital of the Lazio region and the country\'s most populated comune. Rome is often referred to as the Eternal City and was the capital of the Roman Empire. Vatican City, an independent country, lies within the city boundaries.'
+  },
+  {
+    _id: 'roman-empire',
+    title: 'Roman Empire',
+    content:
+      'The Roman Empire was the state ruled by the Romans following Octavian\'s assumption of sole rule under the Principate in 27 BC. At its height it controlled the Mediterranean coast, most of Europe and parts of the Middle East and North Africa. The western empire collapsed in 476 AD.'
+  },
+  {
+    _id: 'colosseum',
+    title: 'Colosseum',
+    content:
+      'The Colosseum is an elliptical amphitheatre in the centre of Rome, Italy. Built of travertine limestone, tuff and brick-faced concrete, it was the largest amphitheatre ever built at the time and held 50,000 to 80,000 spectators for gladiatorial contests and public spectacles.'
+  },
+  {
+    _id: 'italy',
+    title: 'Italy',
+    content:
+      'Italy is a country in Southern Europe consisting of a peninsula delimited by the Alps and surrounded by several islands. Its capital and largest city is Rome. Italy is known for its cuisine, art, architecture and its influence on Western culture since the Renaissance.'
+  },
+  {
+    _id: 'renaissance',
+    title: 'Renaissance',
+    content:
+      'The Renaissance was a period of European history marking the transition from the Middle Ages to modernity, covering the 15th and 16th centuries. It began in Florence and spread across Italy and Europe, with a revival of classical learning, art and architecture.'
+  },
+  {
+    _id: 'leonardo-da-vinci',
+    title: 'Leonardo da Vinci',
+    content:
+      'Leonardo da Vinci was an Italian polymath of the High Renaissance who was active as a painter, draughtsman, engineer, scientist and architect. His paintings include the Mona Lisa and The Last Supper, and his notebooks contain studies of anatomy, flight and optics.'
+  },
+  {
+    _id: 'paris',
+    title: 'Paris',
+    content:
+      'Paris is the capital and largest city of France. Situated on the river Seine in the north of the country, it is a centre of finance, diplomacy, fashion and the arts. Landmarks include the Eiffel Tower, Notre-Dame and the Louvre, the most visited art museum in the world.'
+  },
+  {
+    _id: 'eiffel-tower',
+    title: 'Eiffel Tower',
+    content:
+      'The Eiffel Tower is a wrought-iron lattice tower on the Champ de Mars in Paris, France. It is named after the engineer Gustave Eiffel, whose company designed and built the tower for the 1889 World\'s Fair. It was the tallest man-made structure in the world until 1930.'
+  },
+  {
+    _id: 'photosynthesis',
+    title: 'Photosynthesis',
+    content:
+      'Photosynthesis is a process used by plants, algae and some bacteria to convert light energy into chemical energy stored in sugars. It takes in carbon dioxide and water and releases oxygen, and is responsible for most of the oxygen in the Earth\'s atmosphere.'
+  },
+  {
+    _id: 'black-hole',
+    title: 'Black hole',
+    content:
+      'A black hole is a region of spacetime where gravity is so strong that nothing, not even light, can escape it. General relativity predicts that a sufficiently compact mass deforms spacetime to form a black hole. The boundary of no escape is called the event horizon.'
+  },
+  {
+    _id: 'general-relativity',
+    title: 'General relativity',
+    content:
+      'General relativity is the geometric theory of gravitation published by Albert Einstein in 1915. It describes gravity as a property of the curvature of spacetime caused by mass and energy, and predicts gravitational waves, gravitational lensing and black holes.'
+  },
+  {
+    _id: 'albert-einstein',
+    title: 'Albert Einstein',
+    content:
+      'Albert Einstein was a German-born theoretical physicist who developed the theory of relativity. He received the 1921 Nobel Prize in Physics for his explanation of the photoelectric effect. His mass-energy equivalence formula E = mc2 is among the most famous equations.'
+  },
+  {
+    _id: 'python-programming-language',
+    title: 'Python (programming language)',
+    content:
+      'Python is a high-level, general-purpose programming language. Its design philosophy emphasizes code readability with significant indentation. Created by Guido van Rossum and first released in 1991, it is widely used for web development, data science and machine learning.'
+  },
+  {
+    _id: 'search-engine',
+    title: 'Search engine',
+    content:
+      'A search engine is a software system that finds web pages and other documents matching a query. Results are ranked by relevance using signals such as term frequency, links and, in modern engines, semantic similarity between the query and document embeddings.'
+  },
+  {
+    _id: 'information-retrieval',
+    title: 'Information retrieval',
+    content:
+      'Information retrieval is the task of finding documents relevant to an information need within a large collection. Classic models include the vector space model and BM25, while neural retrieval encodes queries and documents as dense vectors for semantic search.'
+  },
+  {
+    _id: 'mount-everest',
+    title: 'Mount Everest',
+    content:
+      'Mount Everest is Earth\'s highest mountain above sea level, located in the Mahalangur Himal sub-range of the Himalayas on the border between Nepal and China. Its elevation of 8,849 metres was established in 2020. The first confirmed ascent was in 1953.'
+  }
+]
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { createMockBackend, parseMockFailure } from '@/mock/mockBackend'
+
+const post = (backend: ReturnType<typeof createMockBackend>, endpoint: string, body: unknown) =>
+  backend.fetch(`/v1/index/wiki/${endpoint}`, { method: 'POST', body: JSON.stringify(body) })
+
+const ids = async (response: Response) => ((await response.json()).hits as { _id: string }[]).map((hit) => hit._id)
+
+describe('mock search', () => {
+  const backend = createMockBackend()
+
+  it('ranks lexical matches with BM25 and returns the requested fields', async () => {
+    const response = await post(backend, 'search', {
+      query: { multi_match: { query: 'eiffel tower', fields: ['title^2', 'content'] } },
+      fields: ['_id', 'title'],
+      size: 2
+    })
+    const data = await response.json()
+    expect(data.hits.map((hit: { _id: string }) => hit._id)).toEqual(['eiffel-tower', 'paris'])
+    expect(Object.keys(data.hits[0]).sort()).toEqual(['_id', '_score', 'title'])
+    expect(data.took.total).toBeGreaterThan(0)
+  })
+
+  it('fuses retrievers with RRF and pages with from and size', async () => {
+    const retrieve = [
+      { multi_match: { query: 'rome', fields: ['title', 'content'] } },
+      { semantic: { field: 'content', query: 'rome' } }
+    ]
+    const all = await ids(await post(backend, 'search', { query: { rrf: { retrieve } }, size: 10 }))
+    expect(all[0]).toBe('rome')
+    expect(await ids(await post(backend, 'search', { query: { rrf: { retrieve } }, from: 1, size: 2 }))).toEqual(all.slice(1, 3))
+  })
+
+  it('finds nothing for nonsense queries', async () => {
+    const response = await post(backend, 'search', { query: { semantic: { field: 'content', query: 'qzxvw' } } })
+    expect(await ids(response)).toEqual([])
+  })
+
+  it('applies filters and computes aggregations over all matches', async () => {
+    const tagged = createMockBackend({
+      documents: [
+        { _id: 'a', title: 'A', content: 'x', year: 1900, tag: ['old'] },
+        { _id: 'b', title: 'B', content: 'x', year: 2000, tag: ['new'] },
+        { _id: 'c', title: 'C', content: 'x', year: 2010, tag: ['new'] }
+      ]
+    })
+    const response = await post(tagged, 'search', {
+      query: { match_all: {} },
+      filters: { include: { range: { year: { gte: 1950 } } } },
+      aggs: { tag: { term: { field: 'tag', size: 10 } }, year: { range: { field: 'year', ranges: [{ to: 2005 }, { from: 2005 }] } } },
+      size: 1
+    })
+    const data = await response.json()
+    expect(data.hits).toHaveLength(1)
+    expect(data.aggs.tag.buckets).toEqual([{ term: 'new', count: 2 }])
+    expect(data.aggs.year.buckets).toEqual([{ to: 2005, count: 1 }, { from: 2005, count: 1 }])
+  })
+
+  it('looks up a document by _id', async () => {
+    const response = await post(backend, 'search', {
+      query: { match_all: {} },
+      filters: { include: { term: { _id: 'colosseum' } } },
+      size: 1
+    })
+    expect(await ids(response)).toEqual(['colosseum'])
+  })
+
+  it('rejects unsupported queries and unknown indexes', async () => {
+    const response = await post(backend, 'search', { query: { bool: {} } })
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ error: "unsupported query type 'bool'" })
+    expect((await backend.fetch('/v1/index/other/mapping')).status).toBe(404)
+  })
+})
+
+describe('mock suggest', () => {
+  it('suggests titles starting with, then containing, the input', async () => {
+    const response = await post(createMockBackend(), 'suggest', { query: 'ro', fields: ['title'], count: 10 })
+    const { suggestions } = await response.json()
+    expect(suggestions.map((s: { text: string }) => s.text)).toEqual(['Roman Empire', 'Rome'])
+  })
+})
+
+describe('mock failures', () => {
+  it('injects HTTP errors, dropped connections and malformed bodies', async () => {
+    const backend = createMockBackend({ failure: { kind: 'http', status: 503 } })
+    const response = await post(backend, 'search', {})
+    expect(response.status).toBe(503)
+    expect(response.statusText).toBe('Service Unavailable')
+
+    backend.configure({ failure: { kind: 'network' } })
+    await expect(post(backend, 'search', {})).rejects.toThrow(TypeError)
+
+    backend.configure({ failure: { kind: 'malformed' } })
+    expect(await (await post(backend, 'search', {})).text()).toContain('<html>')
+  })
+
+  it('delays responses and rejects when aborted', async () => {
+    const backend = createMockBackend({ latencyMs: 5000 })
+    const controller = new AbortController()
+    const pending = backend.fetch('/v1/index/wiki/mapping', { signal: controller.signal })
+    controller.abort()
+    await expect(pending).rejects.toThrow()
+  })
+
+  it('parses MOCK_FAILURE values', () => {
+    expect(parseMockFailure(undefined)).toBeNull()
+    expect(parseMockFailure(' 500 ')).toEqual({ kind: 'http', status: 500 })
+    expect(parseMockFailure('network')).toEqual({ kind: 'network' })
+    expect(() => parseMockFailure('sometimes')).toThrow()
+  })
+})
@@ -0,0 +1,482 @@
+// In-memory stand-in for the Nixiesearch search, suggest and mapping endpoints
+// over the fixture corpus, with injectable latency and failures. Served by the
+// dev:mock Vite plugin and used as fetch by component tests. Imports are
+// relative because vite.config.ts loads this module too.
+import { MOCK_CORPUS, type MockDocument } from './corpus'
+
+export type MockFailure =
+  // Non-2xx response with a Nixiesearch-style {"error": ...} body
+  | { kind: 'http'; status: number; message?: string }
+  // No response at all, as when the backend is down
+  | { kind: 'network' }
+  // 200 response with an HTML body, as from a misconfigured proxy
+  | { kind: 'malformed' }
+
+export interface MockBackendOptions {
+  index: string
+  documents: MockDocument[]
+  // Added before every response, e.g. to look at loading states
+  latencyMs: number
+  // Every request fails this way while set
+  failure: MockFailure | null
+}
+
+export const DEFAULT_MOCK_OPTIONS: MockBackendOptions = {
+  index: 'wiki',
+  documents: MOCK_CORPUS,
+  latencyMs: 0,
+  failure: null
+}
+
+export interface MockRequest {
+  method: string
+  // Absolute URL or path, e.g. /v1/index/wiki/search
+  url: string
+  body?: string
+  signal?: AbortSignal | null
+}
+
+export interface MockResponse {
+  status: number
+  contentType: string
+  body: string
+}
+
+// Thrown by respond() when the request should get no response
+export class MockNetworkError extends Error {
+  constructor() {
+    super('Mock backend dropped the connection')
+    this.name = 'MockNetworkError'
+  }
+}
+
+// Malformed request bodies, answered with HTTP 400
+class BadRequestError extends Error {}
+
+export interface MockBackend {
+  options: () => MockBackendOptions
+  configure: (patch: Partial<MockBackendOptions>) => void
+  respond: (request: MockRequest) => Promise<MockResponse>
+  // Drop-in replacement for the global fetch
+  fetch: (input: string | URL | Request, init?: RequestInit) => Promise<Response>
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  400: 'Bad Request',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout'
+}
+
+// MOCK_FAILURE values: an HTTP status, "network" or "malformed"; empty for none
+export function parseMockFailure(raw: string | undefined): MockFailure | null {
+  const value = raw?.trim().toLowerCase()
+  if (!value) return null
+  if (value === 'network' || value === 'malformed') return { kind: value }
+  const status = Number(value)
+  if (Number.isInteger(status) && status >= 400 && status <= 599) return { kind: 'http', status }
+  throw new Error(`Unknown mock failure "${raw}", expected an HTTP status, "network" or "malformed"`)
+}
+
+export function createMockBackend(initial: Partial<MockBackendOptions> = {}): MockBackend {
+  let options: MockBackendOptions = { ...DEFAULT_MOCK_OPTIONS, ...initial }
+
+  const respond = async (request: MockRequest): Promise<MockResponse> => {
+    await sleep(options.latencyMs, request.signal)
+    const { failure } = options
+    if (failure?.kind === 'network') throw new MockNetworkError()
+    if (failure?.kind === 'malformed') {
+      return { status: 200, contentType: 'text/html', body: '<html><body><h1>502 Bad Gateway</h1></body></html>' }
+    }
+    if (failure?.kind === 'http') {
+      return errorResponse(failure.status, failure.message ?? `mock failure: ${STATUS_TEXT[failure.status] ?? 'error'}`)
+    }
+    return route(request, options)
+  }
+
+  return {
+    options: () => options,
+    configure: (patch) => {
+      options = { ...options, ...patch }
+    },
+    respond,
+    fetch: async (input, init) => {
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+      try {
+        const { status, contentType, body } = await respond({
+          method: init?.method ?? 'GET',
+          url,
+          body: typeof init?.body === 'string' ? init.body : undefined,
+          signal: init?.signal
+        })
+        return new Response(body, { status, statusText: STATUS_TEXT[status] ?? '', headers: { 'Content-Type': contentType } })
+      } catch (err) {
+        // What fetch itself rejects with when the connection fails
+        if (err instanceof MockNetworkError) throw new TypeError('Failed to fetch')
+        throw err
+      }
+    }
+  }
+}
+
+// Rejects as soon as the request is aborted, like a real in-flight fetch
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    if (ms <= 0) return resolve()
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+const json = (status: number, data: unknown): MockResponse => ({
+  status,
+  contentType: 'application/json',
+  body: JSON.stringify(data)
+})
+
+const errorResponse = (status: number, message: string) => json(status, { error: message })
+
+const ROUTE = /^\/v1\/index\/([^/]+)\/(search|suggest|mapping)$/
+
+function route(request: MockRequest, options: MockBackendOptions): MockResponse {
+  const path = request.url.replace(/^[a-z]+:\/\/[^/]+/i, '').split('?')[0]
+  const match = ROUTE.exec(path)
+  if (!match) return errorResponse(404, `no route for ${request.method} ${path}`)
+  const index = decodeURIComponent(match[1])
+  const endpoint = match[2]
+  if (index !== options.index) return errorResponse(404, `index '${index}' not found`)
+  if (endpoint === 'mapping') return json(200, { name: index, ...MOCK_MAPPING })
+  if (request.method !== 'POST') return errorResponse(405, `${request.method} is not supported for ${endpoint}`)
+
+  let body: unknown
+  try {
+    body = JSON.parse(request.body ?? '')
+  } catch {
+    return errorResponse(400, 'cannot parse request body as JSON')
+  }
+  try {
+    return json(200, endpoint === 'search' ? search(body, options.documents) : suggest(body, options.documents))
+  } catch (err) {
+    if (err instanceof BadRequestError) return errorResponse(400, err.message)
+    throw err
+  }
+}
+
+// Mapping of the demo wiki index, so field detection works against the mock
+const MOCK_MAPPING = {
+  fields: {
+    _id: { type: 'id' },
+    title: { type: 'text', search: { lexical: { analyze: 'english' } }, suggest: {}, store: true },
+    content: {
+      type: 'text',
+      search: { lexical: { analyze: 'english' }, semantic: { model: 'intfloat/e5-small-v2' } },
+      store: true
+    }
+  }
+}
+
+// Request parsing helpers; anything unexpected is a 400 like on the real backend
+
+function asObject(value: unknown, what: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new BadRequestError(`${what}: expected an object`)
+  }
+  return value as Record<string, unknown>
+}
+
+function asArray(value: unknown, what: string): unknown[] {
+  if (!Array.isArray(value)) throw new BadRequestError(`${what}: expected an array`)
+  return value
+}
+
+// The single key of e.g. {"match_all": {}}, with its value
+function singleKey(value: unknown, what: string): [string, unknown] {
+  const entries = Object.entries(asObject(value, what))
+  if (entries.length !== 1) throw new BadRequestError(`${what}: expected exactly one key, got ${entries.length}`)
+  return entries[0]
+}
+
+function toCount(value: unknown, fallback: number, what: string): number {
+  if (value === undefined) return fallback
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new BadRequestError(`${what}: expected a non-negative integer`)
+  }
+  return value
+}
+
+const STOPWORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'by', 'for', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'was', 'with'])
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((token) => !STOPWORDS.has(token))
+
+const textOf = (value: unknown): string =>
+  typeof value === 'string' ? value : Array.isArray(value) ? value.join(' ') : value === undefined ? '' : String(value)
+
+interface Scored {
+  doc: MockDocument
+  score: number
+}
+
+// Highest score first, ties by _id so results are stable
+function ranked(scores: Map<MockDocument, number>): Scored[] {
+  return [...scores]
+    .map(([doc, score]) => ({ doc, score }))
+    .sort((a, b) => b.score - a.score || a.doc._id.localeCompare(b.doc._id))
+}
+
+// What a query did, for the modelled timings
+interface QueryStats {
+  retrievers: number
+  semantic: boolean
+}
+
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// BM25 per field, summed over the fields with their boosts
+function lexical(text: string, fields: { field: string; boost: number }[], docs: MockDocument[]): Scored[] {
+  const terms = [...new Set(tokenize(text))]
+  const scores = new Map<MockDocument, number>()
+  for (const { field, boost } of fields) {
+    const tokenized = docs.map((doc) => tokenize(textOf(doc[field])))
+    const averageLength = tokenized.reduce((sum, tokens) => sum + tokens.length, 0) / Math.max(tokenized.length, 1)
+    for (const term of terms) {
+      const df = tokenized.filter((tokens) => tokens.includes(term)).length
+      if (df === 0) continue
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))
+      tokenized.forEach((tokens, i) => {
+        const tf = tokens.filter((token) => token === term).length
+        if (tf === 0) return
+        const norm = (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * tokens.length) / averageLength))
+        scores.set(docs[i], (scores.get(docs[i]) ?? 0) + boost * idf * norm)
+      })
+    }
+  }
+  return ranked(scores)
+}
+
+function trigrams(text: string): Set<string> {
+  const padded = ` ${tokenize(text).join(' ')} `
+  const grams = new Set<string>()
+  for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3))
+  return grams
+}
+
+const coverage = (query: Set<string>, doc: Set<string>) => [...query].filter((gram) => doc.has(gram)).length / query.size
+
+// Below this share of matching query trigrams a document is not returned, like
+// a similarity cut-off, so nonsense queries find nothing
+const SEMANTIC_MIN_COVERAGE = 0.6
+
+// Stands in for embedding similarity: character trigram overlap is fuzzy and
+// ranks differently from BM25, which is what the UI needs to show hybrid search
+function semantic(text: string, field: string, docs: MockDocument[]): Scored[] {
+  const query = trigrams(text)
+  const scores = new Map<MockDocument, number>()
+  if (query.size === 0) return []
+  for (const doc of docs) {
+    const fieldCoverage = coverage(query, trigrams(textOf(doc[field])))
+    const titleCoverage = coverage(query, trigrams(doc.title))
+    const best = Math.max(fieldCoverage, titleCoverage)
+    if (best >= SEMANTIC_MIN_COVERAGE) scores.set(doc, 0.6 * best + 0.4 * Math.min(fieldCoverage, titleCoverage))
+  }
+  return ranked(scores)
+}
+
+// "title^2" -> {field: "title", boost: 2}
+function boostedField(spec: unknown): { field: string; boost: number } {
+  if (typeof spec !== 'string') throw new BadRequestError('multi_match.fields: expected strings')
+  const [field, boost] = spec.split('^')
+  return { field, boost: boost === undefined ? 1 : Number(boost) || 1 }
+}
+
+function runQuery(query: unknown, docs: MockDocument[], stats: QueryStats): Scored[] {
+  const [type, params] = singleKey(query, 'query')
+  switch (type) {
+    case 'match_all':
+      return docs.map((doc) => ({ doc, score: 1 }))
+    case 'match': {
+      stats.retrievers++
+      const [field, value] = singleKey(params, 'match')
+      const text = typeof value === 'string' ? value : asObject(value, `match.${field}`).query
+      return lexical(textOf(text), [{ field, boost: 1 }], docs)
+    }
+    case 'multi_match': {
+      stats.retrievers++
+      const { query: text, fields } = asObject(params, 'multi_match')
+      return lexical(textOf(text), asArray(fields, 'multi_match.fields').map(boostedField), docs)
+    }
+    case 'semantic': {
+      stats.retrievers++
+      stats.semantic = true
+      const { query: text, field } = asObject(params, 'semantic')
+      return semantic(textOf(text), textOf(field), docs)
+    }
+    case 'rrf': {
+      const { retrieve, rank_constant, rank_window_size } = asObject(params, 'rrf')
+      const k = toCount(rank_constant, 60, 'rrf.rank_constant')
+      const window = toCount(rank_window_size, 20, 'rrf.rank_window_size')
+      const scores = new Map<MockDocument, number>()
+      for (const retriever of asArray(retrieve, 'rrf.retrieve')) {
+        runQuery(retriever, docs, stats)
+          .slice(0, window)
+          .forEach(({ doc }, i) => scores.set(doc, (scores.get(doc) ?? 0) + 1 / (k + i + 1)))
+      }
+      return ranked(scores)
+    }
+    default:
+      throw new BadRequestError(`unsupported query type '${type}'`)
+  }
+}
+
+function matchesFilter(doc: MockDocument, clause: unknown): boolean {
+  const [type, params] = singleKey(clause, 'filter')
+  switch (type) {
+    case 'and':
+      return asArray(params, 'and').every((c) => matchesFilter(doc, c))
+    case 'or':
+      return asArray(params, 'or').some((c) => matchesFilter(doc, c))
+    case 'term': {
+      const [field, value] = singleKey(params, 'term')
+      const values = Array.isArray(doc[field]) ? (doc[field] as unknown[]) : [doc[field]]
+      return values.some((v) => v !== undefined && String(v) === String(value))
+    }
+    case 'range': {
+      const [field, bounds] = singleKey(params, 'range')
+      const { gt, gte, lt, lte } = asObject(bounds, `range.${field}`)
+      const value = Number(doc[field])
+      return (
+        Number.isFinite(value) &&
+        (gt === undefined || value > Number(gt)) &&
+        (gte === undefined || value >= Number(gte)) &&
+        (lt === undefined || value < Number(lt)) &&
+        (lte === undefined || value <= Number(lte))
+      )
+    }
+    default:
+      throw new BadRequestError(`unsupported filter type '${type}'`)
+  }
+}
+
+function matchesFilters(doc: MockDocument, filters: unknown): boolean {
+  if (filters === undefined) return true
+  const { include, exclude } = asObject(filters, 'filters')
+  return (include === undefined || matchesFilter(doc, include)) && (exclude === undefined || !matchesFilter(doc, exclude))
+}
+
+function aggregate(aggs: unknown, docs: MockDocument[]) {
+  return Object.fromEntries(
+    Object.entries(asObject(aggs, 'aggs')).map(([name, spec]) => {
+      const [type, params] = singleKey(spec, `aggs.${name}`)
+      const { field, size, ranges } = asObject(params, `aggs.${name}.${type}`)
+      const values = (doc: MockDocument) => {
+        const value = doc[textOf(field)]
+        return Array.isArray(value) ? value : value === undefined ? [] : [value]
+      }
+      if (type === 'term') {
+        const counts = new Map<string, number>()
+        docs.flatMap(values).forEach((value) => counts.set(String(value), (counts.get(String(value)) ?? 0) + 1))
+        const buckets = [...counts]
+          .map(([term, count]) => ({ term, count }))
+          .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term))
+          .slice(0, toCount(size, 10, `aggs.${name}.term.size`))
+        return [name, { buckets }]
+      }
+      if (type === 'range') {
+        const buckets = asArray(ranges, `aggs.${name}.range.ranges`).map((range) => {
+          const { from, to } = asObject(range, `aggs.${name}.range.ranges[]`)
+          const count = docs.filter((doc) =>
+            values(doc).some(
+              (v) => (from === undefined || Number(v) >= Number(from)) && (to === undefined || Number(v) < Number(to))
+            )
+          ).length
+          return { ...(from !== undefined && { from }), ...(to !== undefined && { to }), count }
+        })
+        return [name, { buckets }]
+      }
+      throw new BadRequestError(`unsupported aggregation type '${type}'`)
+    })
+  )
+}
+
+// ±20% around a typical duration
+const jitter = (seconds: number) => seconds * (0.8 + Math.random() * 0.4)
+
+// Modelled on a small warm Nixiesearch index, in seconds: embedding the query
+// dominates semantic searches, then per-retriever search and per-hit fetch
+function searchTimings(stats: QueryStats, docCount: number, hitCount: number, aggCount: number) {
+  const open = jitter(0.00005)
+  const request = stats.semantic ? jitter(0.006) : jitter(0.0002)
+  const search = jitter(0.0004 + Math.max(stats.retrievers, 1) * (0.0008 + docCount * 0.00002))
+  const agg = aggCount > 0 ? jitter(0.0003 * aggCount) : undefined
+  const fetch = jitter(0.0002 + hitCount * 0.00006)
+  return {
+    total: open + request + search + (agg ?? 0) + fetch,
+    open,
+    request,
+    search,
+    ...(agg !== undefined && { agg }),
+    fetch
+  }
+}
+
+function search(body: unknown, documents: MockDocument[]) {
+  const request = asObject(body, 'request')
+  const stats: QueryStats = { retrievers: 0, semantic: false }
+  const docs = documents.filter((doc) => matchesFilters(doc, request.filters))
+  const matches = runQuery(request.query ?? { match_all: {} }, docs, stats)
+  const from = toCount(request.from, 0, 'from')
+  const size = toCount(request.size, 10, 'size')
+  const fields = request.fields === undefined ? null : asArray(request.fields, 'fields').map(textOf)
+  const hits = matches.slice(from, from + size).map(({ doc, score }) => ({
+    ...Object.fromEntries(Object.entries(doc).filter(([field]) => fields === null || fields.includes(field))),
+    _id: doc._id,
+    _score: score
+  }))
+  const aggs = request.aggs === undefined ? undefined : aggregate(request.aggs, matches.map(({ doc }) => doc))
+  return {
+    hits,
+    took: searchTimings(stats, docs.length, hits.length, aggs ? Object.keys(aggs).length : 0),
+    ...(aggs && { aggs })
+  }
+}
+
+// Field values starting with the input rank above ones with a later word
+// starting with it
+function suggest(body: unknown, documents: MockDocument[]) {
+  const request = asObject(body, 'request')
+  if (typeof request.query !== 'string') throw new BadRequestError('query: expected a string')
+  const prefix = request.query.trim().toLowerCase()
+  const fields = request.fields === undefined ? ['title'] : asArray(request.fields, 'fields').map(textOf)
+  const count = toCount(request.count, 10, 'count')
+  const scores = new Map<string, number>()
+  if (prefix) {
+    for (const doc of documents) {
+      for (const field of fields) {
+        const text = textOf(doc[field])
+        const lower = text.toLowerCase()
+        const score = lower.startsWith(prefix) ? 1 : lower.includes(` ${prefix}`) ? 0.5 : 0
+        if (score > (scores.get(text) ?? 0)) scores.set(text, score)
+      }
+    }
+  }
+  const suggestions = [...scores]
+    .map(([text, score]) => ({ text, score }))
+    .sort((a, b) => b.score - a.score || a.text.localeCompare(b.text))
+    .slice(0, count)
+  const took = jitter(0.0003 + documents.length * 0.000005)
+  return { suggestions, took: { total: took, search: took } }
+}
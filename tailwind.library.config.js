@@ -0,0 +1,17 @@
+import base from './tailwind.config.js'
+
+// Tailwind config of the library stylesheet (src/library.css): only the
+// classes of the components exported from src/library.ts, without preflight,
+// and scoped to elements inside .search-ui so the host page keeps its styles
+/** @type {import('tailwindcss').Config} */
+export default {
+  ...base,
+  content: [
+    "./src/components/{SearchBox,ResultList,ResultCard,SearchStats,TimingStats,LatencyWaterfall,ErrorBanner,Highlighted,ScoreBreakdown}.tsx",
+    "./src/components/ui/{badge,card,input,tooltip}.tsx",
+  ],
+  important: '.search-ui',
+  corePlugins: {
+    preflight: false,
+  },
+}
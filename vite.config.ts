@@ -1,22 +1,138 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type Plugin, type UserConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import dts from 'vite-plugin-dts'
 import path from 'path'
+import { createMockBackend, MockNetworkError, parseMockFailure } from './src/mock/mockBackend'
 
-// https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  base: '/lambda-demo-ui/',
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+// Answers /v1 requests from the in-memory mock backend instead of proxying
+// them to Nixiesearch (`npm run dev:mock`). MOCK_LATENCY_MS and MOCK_FAILURE
+// set the initial latency and failure; GET or POST /__mock to change them.
+function mockBackendPlugin(env: Record<string, string>): Plugin {
+  const backend = createMockBackend({
+    latencyMs: Number(env.MOCK_LATENCY_MS) || 0,
+    failure: parseMockFailure(env.MOCK_FAILURE)
+  })
+
+  return {
+    name: 'mock-backend',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use('/__mock', async (req, res) => {
+        res.setHeader('Content-Type', 'application/json')
+        if (req.method === 'POST') {
+          try {
+            const patch = JSON.parse((await readBody(req)) || '{}')
+            backend.configure({
+              ...(patch.latencyMs !== undefined && { latencyMs: Number(patch.latencyMs) || 0 }),
+              ...(patch.failure !== undefined && { failure: parseMockFailure(patch.failure ?? '') })
+            })
+          } catch (err) {
+            // Malformed JSON or an unknown failure kind
+            res.statusCode = 400
+            res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }))
+            return
+          }
+        }
+        const { latencyMs, failure } = backend.options()
+        res.end(JSON.stringify({ latencyMs, failure }))
+      })
+
+      server.middlewares.use('/v1', async (req, res) => {
+        const controller = new AbortController()
+        res.on('close', () => controller.abort())
+        try {
+          const response = await backend.respond({
+            method: req.method ?? 'GET',
+            url: req.originalUrl ?? req.url ?? '',
+            body: await readBody(req),
+            signal: controller.signal
+          })
+          res.statusCode = response.status
+          res.setHeader('Content-Type', response.contentType)
+          res.end(response.body)
+        } catch (err) {
+          if (err instanceof MockNetworkError || controller.signal.aborted) {
+            req.socket.destroy()
+          } else {
+            res.statusCode = 500
+            res.end(JSON.stringify({ error: String(err) }))
+          }
+        }
+      })
+    }
+  }
+}
+
+function readBody(req: NodeJS.ReadableStream): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.setEncoding('utf8')
+    req.on('data', (chunk: string) => (body += chunk))
+    req.on('end', () => resolve(body))
+    req.on('error', reject)
+  })
+}
+
+// Packages the library build expects the consuming app to provide
+const LIBRARY_EXTERNALS = [
+  'react',
+  'react-dom',
+  '@radix-ui/react-tooltip',
+  'class-variance-authority',
+  'clsx',
+  'lucide-react',
+  'tailwind-merge'
+]
+
+// `vite build --mode lib` builds the search components (src/library.ts) as an
+// ES module with type declarations and a stylesheet into dist-lib/
+function libraryBuild(): UserConfig['build'] {
+  return {
+    outDir: 'dist-lib',
+    copyPublicDir: false,
+    lib: {
+      entry: path.resolve(__dirname, 'src/library.ts'),
+      formats: ['es'],
+      fileName: 'search-ui',
+      cssFileName: 'search-ui'
     },
-  },
-  server: {
-    proxy: {
-      '/v1': {
-        target: 'http://localhost:8080',
-        changeOrigin: true,
+    rollupOptions: {
+      external: (id) => LIBRARY_EXTERNALS.some((name) => id === name || id.startsWith(`${name}/`))
+    }
+  }
+}
+
+// https://vite.dev/config/
+export default defineConfig(({ mode }) => {
+  const mock = mode === 'mock'
+  const lib = mode === 'lib'
+  return {
+    plugins: [
+      react(),
+      mock && mockBackendPlugin(loadEnv(mode, process.cwd(), 'MOCK_')),
+      lib &&
+        dts({
+          tsconfigPath: './tsconfig.app.json',
+          entryRoot: 'src',
+          exclude: ['src/**/*.test.*', 'src/mock/**', 'src/main.tsx', 'src/App.tsx']
+        })
+    ],
+    base: '/lambda-demo-ui/',
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
       },
     },
-  },
+    server: {
+      proxy: mock
+        ? undefined
+        : {
+            '/v1': {
+              target: 'http://localhost:8080',
+              changeOrigin: true,
+            },
+          },
+    },
+    build: lib ? libraryBuild() : undefined,
+  }
 })